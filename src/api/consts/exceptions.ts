@@ -7,5 +7,11 @@ export default {
     API_FILE_EXECEEDS_SIZE: [-2004, '远程文件超出大小'],
     API_CHAT_STREAM_PUSHING: [-2005, '已有对话流正在输出'],
     API_CONTENT_FILTERED: [-2006, '内容由于合规问题已被阻止生成'],
-    API_IMAGE_GENERATION_FAILED: [-2007, '图像生成失败']
+    API_IMAGE_GENERATION_FAILED: [-2007, '图像生成失败'],
+    API_CONVERSATION_OWNER_UNAVAILABLE: [-2008, '会话所属Token不可用'],
+    API_KEY_INVALID: [-2009, 'API Key无效'],
+    API_TOOL_CALL_INVALID: [-2010, '工具调用格式错误'],
+    API_RESPONSE_FORMAT_INVALID: [-2011, '输出格式不符合要求'],
+    API_REQUEST_CANCELED: [-2012, '请求已被客户端取消'],
+    API_MODEL_NOT_SUPPORTED: [-2013, '模型不存在或不支持该功能']
 }
\ No newline at end of file
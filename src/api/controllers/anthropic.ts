@@ -0,0 +1,209 @@
+import { PassThrough } from "stream";
+import _ from "lodash";
+
+import openaiError from "./openai-error.ts";
+import util from "@/lib/util.ts";
+
+// 结束原因映射
+const STOP_REASON_MAP = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  content_filter: "refusal",
+};
+// HTTP状态码到错误类型的映射
+const ERROR_TYPE_MAP = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  413: "request_too_large",
+  429: "rate_limit_error",
+  529: "overloaded_error",
+};
+
+/**
+ * 转换内容块为gpt系列消息内容格式
+ *
+ * @param content Anthropic消息内容
+ */
+function convertContent(content: any) {
+  if (!_.isArray(content)) return content;
+  return content
+    .map((block) => {
+      if (!_.isObject(block)) return null;
+      if (block["type"] == "text") return { type: "text", text: block["text"] };
+      if (block["type"] != "image" || !_.isObject(block["source"])) return null;
+      const { type, media_type, data, url } = block["source"] as any;
+      // base64图像转换为data URL，与URL图像一样交由上传流程处理
+      if (type == "base64")
+        return {
+          type: "image_url",
+          image_url: { url: `data:${media_type};base64,${data}` },
+        };
+      if (type == "url") return { type: "image_url", image_url: { url } };
+      return null;
+    })
+    .filter((part) => part);
+}
+
+/**
+ * 转换Anthropic系统提示词和消息为gpt系列消息格式
+ *
+ * @param system 系统提示词，可以是文本或文本块列表
+ * @param messages Anthropic消息列表
+ */
+function convertMessages(system: any, messages: any[]) {
+  const result = [];
+  if (_.isArray(system))
+    system = system
+      .filter((block) => _.isObject(block) && block["type"] == "text")
+      .map((block) => block["text"])
+      .join("\n");
+  if (_.isString(system) && system)
+    result.push({ role: "system", content: system });
+  messages.forEach((message) =>
+    result.push({
+      role: message.role,
+      content: convertContent(message.content),
+    })
+  );
+  return result;
+}
+
+/**
+ * 获取Anthropic结束原因
+ *
+ * 匹配到停止序列时为stop_sequence
+ *
+ * @param finishReason gpt兼容的结束原因
+ * @param stopSequence 匹配到的停止序列
+ */
+function getStopReason(finishReason: string, stopSequence?: string) {
+  if (finishReason == "stop" && stopSequence) return "stop_sequence";
+  return STOP_REASON_MAP[finishReason] || "end_turn";
+}
+
+/**
+ * 转换补全结果为Anthropic消息格式
+ *
+ * @param answer 补全结果
+ * @param model 模型名称
+ */
+function convertAnswer(answer: any, model: string) {
+  const { message, finish_reason, stop_sequence } = answer.choices[0];
+  return {
+    id: `msg_${answer.id}`,
+    type: "message",
+    role: "assistant",
+    model: model || answer.model,
+    content: [{ type: "text", text: message.content || "" }],
+    stop_reason: getStopReason(finish_reason, stop_sequence),
+    stop_sequence: stop_sequence || null,
+    usage: {
+      input_tokens: answer.usage.prompt_tokens,
+      output_tokens: answer.usage.completion_tokens,
+    },
+  };
+}
+
+/**
+ * 将gpt兼容流转换为Anthropic消息事件流
+ *
+ * gpt兼容流需开启用量输出，用于在message_delta事件中返回用量
+ *
+ * @param model 模型名称
+ * @param stream gpt兼容流
+ */
+function createMessageStream(model: string, stream: any) {
+  const transStream = new PassThrough();
+  const writeEvent = (type: string, data: any = {}) =>
+    !transStream.writableEnded &&
+    transStream.write(
+      `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`
+    );
+  let stopReason = "end_turn";
+  let stopSequence: string | null = null;
+  let usage = { prompt_tokens: 0, completion_tokens: 0 };
+  writeEvent("message_start", {
+    message: {
+      id: `msg_${util.uuid(false)}`,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  });
+  writeEvent("content_block_start", {
+    index: 0,
+    content_block: { type: "text", text: "" },
+  });
+  writeEvent("ping");
+  util.readChunks(stream, (chunk) => {
+    if (chunk.error) {
+      writeEvent("error", {
+        error: { type: "api_error", message: chunk.error.message },
+      });
+      return transStream.end();
+    }
+    if (chunk.usage) usage = chunk.usage;
+    const choice = chunk.choices[0];
+    if (!choice) return;
+    if (choice.delta && choice.delta.content)
+      writeEvent("content_block_delta", {
+        index: 0,
+        delta: { type: "text_delta", text: choice.delta.content },
+      });
+    if (choice.finish_reason) {
+      stopReason = getStopReason(choice.finish_reason, choice.stop_sequence);
+      stopSequence = choice.stop_sequence || null;
+    }
+  });
+  stream.once("error", (err) => {
+    writeEvent("error", convertError(err).body);
+    !transStream.writableEnded && transStream.end();
+  });
+  stream.once("close", () => {
+    if (transStream.writableEnded) return;
+    writeEvent("content_block_stop", { index: 0 });
+    writeEvent("message_delta", {
+      delta: { stop_reason: stopReason, stop_sequence: stopSequence },
+      usage: {
+        input_tokens: usage.prompt_tokens,
+        output_tokens: usage.completion_tokens,
+      },
+    });
+    writeEvent("message_stop");
+    transStream.end();
+  });
+  return transStream;
+}
+
+/**
+ * 转换异常为Anthropic错误格式
+ *
+ * @param err 错误对象
+ */
+function convertError(err: any) {
+  const statusCode = openaiError.getStatusCode(err);
+  return {
+    statusCode,
+    body: {
+      type: "error",
+      error: {
+        type: ERROR_TYPE_MAP[statusCode] || "api_error",
+        message: err && err.message ? err.message : `${err}`,
+      },
+    },
+  };
+}
+
+export default {
+  convertMessages,
+  convertAnswer,
+  createMessageStream,
+  convertError,
+};
@@ -1,5 +1,5 @@
 import path from 'path';
-import { ClientHttp2Session, ClientHttp2Stream } from "http2";
+import { ClientHttp2Stream } from "http2";
 import _ from "lodash";
 import fs from "fs-extra";
 import axios from "axios";
@@ -7,8 +7,14 @@ import { createParser } from "eventsource-parser";
 import AsyncLock from "async-lock";
 
 import core from "./core.ts";
+import { SessionLease } from "./session-pool.ts";
 import chat from "./chat.ts";
-import modelMap from "../consts/model-map.ts";
+import tokenPool from "./token-pool.ts";
+import tokenLimiter from "./token-limiter.ts";
+import tokenStats from "./token-stats.ts";
+import failover, { RetryState } from "./failover.ts";
+import errorClassifier from "./error-classifier.ts";
+import modelRegistry from "./model-registry.ts";
 import logger from "@/lib/logger.ts";
 import util from "@/lib/util.ts";
 
@@ -16,10 +22,6 @@ import util from "@/lib/util.ts";
 const MODEL_NAME = "hailuo";
 // 角色ID
 const CHARACTER_ID = "1";
-// 最大重试次数
-const MAX_RETRY_COUNT = 3;
-// 重试延迟
-const RETRY_DELAY = 5000;
 
 // 语音生成异步锁
 const voiceLock = new AsyncLock();
@@ -37,7 +39,7 @@ async function createSpeech(
   voice: string,
   token: string
 ) {
-  // 先由hailuo复述语音内容获得会话ID和消息ID
+  // 先由hailuo复述语音内容获得会话ID和消息ID，语音生成依赖该消息，因此不切换token
   const answer = await chat.createRepeatCompletion(
     model,
     input.replace(/\n/g, "。"),
@@ -47,9 +49,13 @@ async function createSpeech(
 
   const deviceInfo = await core.acquireDeviceInfo(token);
 
-  // OpenAI模型映射转换
-  if (modelMap[model]) voice = modelMap[model][voice] || voice;
+  // OpenAI发音人按模型配置映射转换
+  const { voices } = modelRegistry.getOptions(model);
+  if (voices) voice = voices[voice] || voice;
 
+  // 等待token并发位
+  const release = await tokenLimiter.acquire(token);
+  const ttsStartTime = tokenPool.begin(token);
   const audioUrls = await voiceLock.acquire(token, async () => {
     // 请求切换发音人
     const result = await core.request(
@@ -80,7 +86,13 @@ async function createSpeech(
       ({ requestStatus, result: audioUrls } = core.checkResult(result));
     }
     return audioUrls;
+  }).catch((err) => {
+    release();
+    tokenPool.fail(token, err, ttsStartTime);
+    throw err;
   });
+  release();
+  tokenPool.succeed(token, ttsStartTime);
 
   // 移除对话
   await chat.removeConversation(convId, token);
@@ -105,6 +117,7 @@ async function createSpeech(
       throw new Error(`语音下载失败：[${result.status}]${result.statusText}`);
     audioBuffer = Buffer.concat([audioBuffer, result.data]);
   }
+  tokenStats.recordAudioBytes(token, audioBuffer.byteLength);
   return audioBuffer;
 }
 
@@ -112,7 +125,7 @@ async function createTranscriptions(
   model = MODEL_NAME,
   filePath: string,
   token: string,
-  retryCount = 0
+  retry: RetryState = {}
 ) {
   const name = path.basename(filePath).replace(path.extname(filePath), '');
   const transcodedFilePath = `tmp/${name}_transcodeed.mp3`;
@@ -120,7 +133,10 @@ async function createTranscriptions(
   const buffer = await fs.readFile(transcodedFilePath);
   fs.remove(transcodedFilePath)
     .catch(err => logger.error('移除临时文件失败：', err));
-  let session: ClientHttp2Session;
+  // 等待token并发位
+  const release = await tokenLimiter.acquire(token);
+  let session: SessionLease;
+  const startTime = tokenPool.begin(token);
   return (async () => {
     // 请求流
     const deviceInfo = await core.acquireDeviceInfo(token);
@@ -131,7 +147,8 @@ async function createTranscriptions(
       {
         chatID: "0",
         voiceBytes: buffer,
-        characterID: CHARACTER_ID,
+        characterID:
+          modelRegistry.getOptions(model).characterId || CHARACTER_ID,
         playSpeedLevel: "1",
       },
       token,
@@ -147,20 +164,24 @@ async function createTranscriptions(
     // 接收流为输出文本
     const text = await receiveTrasciptionResult(stream);
     session.close();
-    
+    release();
+    tokenPool.succeed(token, startTime);
+
     return text;
   })().catch((err) => {
     session && session.close();
     session = null;
-    if (retryCount < MAX_RETRY_COUNT) {
-      logger.error(`Stream response error: ${err.stack}`);
-      logger.warn(`Try again after ${RETRY_DELAY / 1000}s...`);
+    release();
+    tokenPool.fail(token, err, startTime);
+    if (failover.shouldRetry(err, retry)) {
+      // 账号相关错误切换到其它token重试，瞬时网络错误在同一token上退避重试
+      const next = failover.plan(token, err, retry);
       return (async () => {
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-        return createTranscriptions(model, filePath, token, retryCount + 1);
+        await new Promise((resolve) => setTimeout(resolve, next.delay));
+        return createTranscriptions(model, filePath, next.token, next.retry);
       })();
     }
-    throw err;
+    throw failover.decorateError(err, token, retry);
   });
 }
 
@@ -186,7 +207,7 @@ async function receiveTrasciptionResult(stream: any): Promise<any> {
           return;
         }
         if(status_code != 0)
-          throw new Error(`Stream response error: ${err_message}`);
+          throw errorClassifier.classify(status_code, err_message);
         if (event.event == "asr_chunk") {
           resolve(data.text);
           stream.close();
@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import core from "./core.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+/**
+ * 从认证字符串解析可用的token列表
+ *
+ * 优先匹配服务端签发的API Key并返回其分组下托管的token，未匹配时在允许的情况下将认证字符串作为token切分
+ *
+ * @param authorization 认证字符串
+ */
+function resolveTokens(authorization: string) {
+  const credential = authorization.replace(/^Bearer\s+/i, "").trim();
+  const { apiKeys, apiKeyPrefix, allowRawTokens, tokens } = config.service;
+  if (_.has(apiKeys, credential)) {
+    const group = apiKeys[credential];
+    if (!tokens[group] || !tokens[group].length) {
+      // 分组名称仅记录到日志，避免向调用方暴露配置
+      logger.error(`Token group ${group} is not configured`);
+      throw new APIException(
+        EX.API_REQUEST_FAILED,
+        "No tokens are available for this API Key"
+      ).setHTTPStatusCode(503);
+    }
+    return tokens[group];
+  }
+  if (
+    !allowRawTokens ||
+    (!_.isEmpty(apiKeys) && apiKeyPrefix && credential.startsWith(apiKeyPrefix))
+  )
+    throw new APIException(EX.API_KEY_INVALID).setHTTPStatusCode(401);
+  return core.tokenSplit(authorization);
+}
+
+/**
+ * 获取default分组下托管的token列表
+ *
+ * 用于不携带认证信息的客户端（如标准Ollama客户端），未配置default分组时返回401
+ */
+function resolveDefaultTokens() {
+  const { tokens } = config.service;
+  if (!tokens.default || !tokens.default.length)
+    throw new APIException(
+      EX.API_KEY_INVALID,
+      "Authorization is required when no default token group is configured"
+    ).setHTTPStatusCode(401);
+  return tokens.default;
+}
+
+/**
+ * 校验管理密钥
+ *
+ * 未配置管理密钥时拒绝所有管理请求，避免托管账号的使用情况被公开访问
+ *
+ * @param authorization 认证字符串
+ */
+function checkAdmin(authorization?: string) {
+  const { adminKey } = config.service;
+  if (!adminKey)
+    throw new APIException(
+      EX.API_KEY_INVALID,
+      "Admin key is not configured"
+    ).setHTTPStatusCode(403);
+  const credential = _.isString(authorization)
+    ? authorization.replace(/^Bearer\s+/i, "").trim()
+    : "";
+  // 比较摘要避免长度不同时抛出异常，并以恒定时间比较
+  if (
+    !crypto.timingSafeEqual(
+      Buffer.from(util.md5(credential)),
+      Buffer.from(util.md5(adminKey))
+    )
+  )
+    throw new APIException(EX.API_KEY_INVALID).setHTTPStatusCode(401);
+}
+
+export default {
+  resolveTokens,
+  resolveDefaultTokens,
+  checkAdmin,
+};
@@ -0,0 +1,175 @@
+import _ from "lodash";
+
+import chat, { CompletionOptions } from "./chat.ts";
+import tokenPool from "./token-pool.ts";
+import conversationAffinity from "./conversation-affinity.ts";
+import { RetryState } from "./failover.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+// 空闲会话回收检查间隔（毫秒）
+const GC_INTERVAL = 60000;
+
+/**
+ * 服务端会话
+ */
+interface ChatSession {
+  /** 所属token */
+  token: string;
+  /** hailuo会话ID */
+  convId: string;
+  /** 已发送历史（含助手回复）的哈希 */
+  historyHash: string;
+  /** 已发送历史的消息数 */
+  messageCount: number;
+  /** 最后活跃时间戳（毫秒） */
+  lastActiveTime: number;
+}
+
+/**
+ * 会话准备结果
+ */
+export interface PreparedSession {
+  /** 使用的token */
+  token: string;
+  /** 引用的hailuo会话ID，新会话为空 */
+  convId: string;
+  /** 本次需要发送的消息 */
+  messages: any[];
+  /** 重试状态 */
+  retry: RetryState;
+  /** 补全选项 */
+  options: CompletionOptions;
+}
+
+// 会话映射
+const sessionMap = new Map<string, ChatSession>();
+
+/**
+ * 计算消息历史哈希
+ *
+ * @param messages 消息列表
+ */
+function hashMessages(messages: any[]) {
+  return util.md5(
+    JSON.stringify(
+      messages.map(({ role, content }) => ({
+        role,
+        content: _.isString(content) ? content.trim() : content,
+      }))
+    )
+  );
+}
+
+/**
+ * 从请求中提取会话ID，未开启会话模式时返回null
+ *
+ * @param headers 请求headers
+ * @param body 请求载荷
+ */
+function extractId(headers: any, body: any): string | null {
+  if (!config.system.sessionEnabled) return null;
+  const sessionId = headers["x-session-id"] || body.user;
+  return _.isString(sessionId) && sessionId ? sessionId : null;
+}
+
+/**
+ * 丢弃会话并异步移除上游会话
+ *
+ * @param key 会话键
+ */
+function discard(key: string) {
+  const session = sessionMap.get(key);
+  if (!session) return;
+  sessionMap.delete(key);
+  conversationAffinity.unbind(session.convId);
+  chat
+    .removeConversation(session.convId, session.token)
+    .catch((err) => logger.warn(`Session remove failed: ${err.message}`));
+}
+
+/**
+ * 准备会话
+ *
+ * 客户端历史与已发送历史一致时仅发送新增的消息并继续原hailuo会话，
+ * 历史出现分歧（编辑或重新生成）或原token不可用时丢弃原会话并新建会话
+ *
+ * @param sessionId 客户端会话ID
+ * @param tokens Token列表
+ * @param messages 客户端提供的完整消息列表
+ */
+function prepare(
+  sessionId: string,
+  tokens: string[],
+  messages: any[]
+): PreparedSession {
+  const key = `${util.md5(tokens.join(","))}:${sessionId}`;
+  // 消息预处理会修改消息列表，此处保留客户端原始历史
+  const history = _.cloneDeep(messages);
+  const options: CompletionOptions = {
+    keepConversation: true,
+    onComplete: ({ convId, token, content }) => {
+      const fullHistory = [...history, { role: "assistant", content }];
+      sessionMap.set(key, {
+        token,
+        convId,
+        historyHash: hashMessages(fullHistory),
+        messageCount: fullHistory.length,
+        lastActiveTime: util.timestamp(),
+      });
+    },
+  };
+  const session = sessionMap.get(key);
+  if (
+    session &&
+    messages.length > session.messageCount &&
+    tokens.includes(session.token) &&
+    !tokenPool.isDisabled(session.token) &&
+    hashMessages(messages.slice(0, session.messageCount)) ==
+      session.historyHash
+  ) {
+    session.lastActiveTime = util.timestamp();
+    logger.info(
+      `Session ${sessionId} resumed with conversation ${session.convId}`
+    );
+    return {
+      token: session.token,
+      convId: session.convId,
+      messages: messages.slice(session.messageCount),
+      retry: { tokens: [] },
+      options,
+    };
+  }
+  if (session) {
+    logger.info(
+      `Session ${sessionId} history diverged, starting a new conversation`
+    );
+    discard(key);
+  }
+  return {
+    token: tokenPool.select(tokens),
+    convId: "",
+    messages,
+    retry: { tokens },
+    options,
+  };
+}
+
+/**
+ * 回收空闲会话
+ */
+function collectIdleSessions() {
+  const expireTime = util.timestamp() - config.system.sessionIdleTimeout;
+  for (let [key, session] of sessionMap) {
+    if (session.lastActiveTime < expireTime) discard(key);
+  }
+}
+
+setInterval(collectIdleSessions, GC_INTERVAL).unref();
+
+export default {
+  extractId,
+  prepare,
+  collectIdleSessions,
+};
@@ -1,9 +1,26 @@
 import { PassThrough } from "stream";
-import { ClientHttp2Session, ClientHttp2Stream } from "http2";
+import { ClientHttp2Stream } from "http2";
 import _ from "lodash";
 
 import { createParser } from "eventsource-parser";
 import core from "./core.ts";
+import { SessionLease } from "./session-pool.ts";
+import tokenPool from "./token-pool.ts";
+import tokenLimiter from "./token-limiter.ts";
+import tokenStats from "./token-stats.ts";
+import failover, { RetryState } from "./failover.ts";
+import errorClassifier from "./error-classifier.ts";
+import openaiError from "./openai-error.ts";
+import conversationAffinity from "./conversation-affinity.ts";
+import toolCalls, { ParsedToolCalls } from "./tool-calls.ts";
+import responseFormat from "./response-format.ts";
+import tokenizer from "./tokenizer.ts";
+import outputLimiter, { OutputLimits } from "./output-limiter.ts";
+import contextCompactor, { CompactionResult } from "./context-compactor.ts";
+import modelRegistry from "./model-registry.ts";
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import config from "@/lib/config.ts";
 import logger from "@/lib/logger.ts";
 import util from "@/lib/util.ts";
 
@@ -11,10 +28,42 @@ import util from "@/lib/util.ts";
 const MODEL_NAME = "hailuo";
 // 角色ID
 const CHARACTER_ID = "1";
-// 最大重试次数
-const MAX_RETRY_COUNT = 3;
-// 重试延迟
-const RETRY_DELAY = 5000;
+// 工具调用格式纠正最大次数
+const MAX_TOOL_CALL_RETRY = 2;
+
+/**
+ * 对话补全选项
+ */
+export interface CompletionOptions {
+  /** 是否保留会话，不在补全结束后移除 */
+  keepConversation?: boolean;
+  /** 补全结束回调，获得会话ID、最终使用的token和输出内容 */
+  onComplete?: (result: {
+    convId: string;
+    token: string;
+    content: string;
+  }) => void;
+  /** 工具定义列表，参考OpenAI tools格式 */
+  tools?: any[];
+  /** 工具选择，参考OpenAI tool_choice格式 */
+  toolChoice?: any;
+  /** 已进行的工具调用格式纠正次数 */
+  toolCallRetry?: number;
+  /** 输出格式，参考OpenAI response_format格式 */
+  responseFormat?: any;
+  /** 已进行的输出格式纠正次数 */
+  formatRetry?: number;
+  /** 是否开启联网搜索 */
+  webSearch?: boolean;
+  /** 流式输出时是否在结束前输出用量 */
+  includeUsage?: boolean;
+  /** 输出限制，包括停止序列和最大生成token数 */
+  limits?: OutputLimits;
+  /** 历史消息被压缩时的回调 */
+  onCompact?: (result: CompactionResult) => void;
+  /** 客户端断开信号，触发时中止上游请求 */
+  signal?: AbortSignal;
+}
 
 /**
  * 移除会话
@@ -35,6 +84,42 @@ async function removeConversation(convId: string, token: string) {
   core.checkResult(result);
 }
 
+/**
+ * 判断请求是否已被客户端取消
+ *
+ * @param signal 客户端断开信号
+ */
+function isCanceled(signal?: AbortSignal) {
+  return !!signal && signal.aborted;
+}
+
+/**
+ * 客户端已取消时抛出取消异常
+ *
+ * @param signal 客户端断开信号
+ */
+function checkCanceled(signal?: AbortSignal) {
+  if (isCanceled(signal))
+    throw new APIException(EX.API_REQUEST_CANCELED, "Request canceled by client");
+}
+
+/**
+ * 监听客户端断开，已断开时立即执行回调
+ *
+ * @param signal 客户端断开信号
+ * @param callback 断开回调
+ * @returns 取消监听的方法
+ */
+function onCancel(signal: AbortSignal | undefined, callback: () => void) {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    callback();
+    return () => {};
+  }
+  signal.addEventListener("abort", callback, { once: true });
+  return () => signal.removeEventListener("abort", callback);
+}
+
 /**
  * 同步对话补全
  *
@@ -42,17 +127,29 @@ async function removeConversation(convId: string, token: string) {
  * @param messages 参考gpt系列消息格式，多轮对话请完整提供上下文
  * @param token 认证token
  * @param refConvId 引用对话ID
- * @param retryCount 重试次数
+ * @param retry 重试状态，tokens为可切换的候选token列表
+ * @param options 补全选项
  */
 async function createCompletion(
   model = MODEL_NAME,
   messages: any[],
   token: string,
   refConvId = "",
-  retryCount = 0
+  retry: RetryState = {},
+  options: CompletionOptions = {}
 ) {
-  let session: ClientHttp2Session;
-  return (async () => {
+  checkCanceled(options.signal);
+  // 压缩超出上下文预算的历史消息，摘要请求需要在等待并发位之前完成
+  messages = await compactMessages(model, messages, token, options);
+  // 等待token并发位
+  const release = await tokenLimiter.acquire(token);
+  let session: SessionLease;
+  const startTime = tokenPool.begin(token);
+  // 启用工具调用时注入工具定义
+  const useTools = toolCalls.isEnabled(options.tools, options.toolChoice);
+  // 上游请求成功时接收的补全结果，失败重试时由重试请求完成后续处理
+  let answer: any = null;
+  const retried = await (async () => {
     logger.info(messages);
 
     // 提取引用文件URL并上传获得引用的文件ID列表
@@ -66,6 +163,21 @@ async function createCompletion(
     // 如果引用对话ID不正确则重置引用
     if (!/[0-9]{18}/.test(refConvId)) refConvId = "";
 
+    const preparedMessages = useTools
+      ? toolCalls.prepareMessages(messages, options.tools, options.toolChoice)
+      : messages;
+
+    const payload = messagesPrepare(
+      preparedMessages,
+      refs,
+      refConvId,
+      responseFormat.isEnabled(options.responseFormat)
+        ? responseFormat.renderPrompt(options.responseFormat)
+        : undefined,
+      options.webSearch,
+      modelRegistry.getOptions(model).characterId
+    );
+
     // 请求流
     const deviceInfo = await core.acquireDeviceInfo(token);
 
@@ -73,7 +185,7 @@ async function createCompletion(
     ({ session, stream } = await core.requestStream(
       "POST",
       "/v4/api/chat/msg",
-      messagesPrepare(messages, refs, refConvId),
+      payload,
       token,
       deviceInfo,
       {
@@ -87,38 +199,140 @@ async function createCompletion(
     ));
 
     const streamStartTime = util.timestamp();
+    // 客户端断开时关闭上游流，已接收的内容将被丢弃
+    const unbindCancel = onCancel(options.signal, () => stream.close());
     // 接收流为输出文本
-    const answer = await receiveStream(model, stream);
+    const received = await receiveStream(
+      model,
+      stream,
+      false,
+      options.responseFormat,
+      options.limits
+    ).finally(unbindCancel);
+    if (isCanceled(options.signal)) {
+      if (received.id && !refConvId && !options.keepConversation)
+        removeConversation(received.id, token).catch((err) => console.error(err));
+      checkCanceled(options.signal);
+    }
+    received.usage = tokenizer.createUsage(
+      model,
+      getPromptText(payload, refs),
+      received.choices[0].message.content
+    );
     session.close();
+    tokenStats.recordLatency(token, util.timestamp() - streamStartTime);
     logger.success(
       `Stream has completed transfer ${util.timestamp() - streamStartTime}ms`
     );
-
-    // 异步移除会话
-    removeConversation(answer.id, token).catch(
-      (err) => !refConvId && console.error(err)
-    );
-
-    return answer;
+    answer = received;
   })().catch((err) => {
     session && session.close();
     session = null;
-    if (retryCount < MAX_RETRY_COUNT) {
-      logger.error(`Stream response error: ${err.stack}`);
-      logger.warn(`Try again after ${RETRY_DELAY / 1000}s...`);
+    release();
+    // 客户端已断开时不再重试，也不计入token失败
+    if (isCanceled(options.signal)) {
+      tokenPool.cancel(token);
+      logger.warn(
+        `Request canceled by client after ${util.timestamp() - startTime}ms`
+      );
+      checkCanceled(options.signal);
+    }
+    tokenPool.fail(token, err, startTime);
+    if (failover.shouldRetry(err, retry)) {
+      // 账号相关错误切换到其它token重试，瞬时网络错误在同一token上退避重试
+      const next = failover.plan(token, err, retry);
       return (async () => {
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+        await new Promise((resolve) => setTimeout(resolve, next.delay));
         return createCompletion(
           model,
           messages,
-          token,
+          next.token,
           refConvId,
-          retryCount + 1
+          next.retry,
+          options
         );
       })();
     }
-    throw err;
+    throw failover.decorateError(err, token, retry);
   });
+  if (!answer) return retried;
+
+  // 需要模型纠正输出时的纠正请求，在本次请求的失败重试流程之外发起
+  let correction: { messages: any[]; options: CompletionOptions } = null;
+  // 上游请求已成功，后续处理的错误与token无关，不进入失败重试流程
+  try {
+    // 解析工具调用，格式错误时要求模型纠正，超过纠正次数则按普通文本返回
+    if (useTools) {
+      const output = answer.choices[0].message.content;
+      const err = _.attempt(() => toolCalls.applyToAnswer(answer, options.tools));
+      const toolCallRetry = options.toolCallRetry || 0;
+      if (_.isError(err) && toolCallRetry < MAX_TOOL_CALL_RETRY) {
+        logger.warn(
+          `Tool calls invalid, correcting (${toolCallRetry + 1}/${MAX_TOOL_CALL_RETRY}): ${err.message}`
+        );
+        if (!refConvId && !options.keepConversation)
+          removeConversation(answer.id, token).catch((err) => console.error(err));
+        correction = {
+          messages: toolCalls.buildCorrectionMessages(messages, output, err),
+          options: { ...options, toolCallRetry: toolCallRetry + 1 },
+        };
+      } else if (_.isError(err))
+        logger.warn(`Tool calls invalid, return as text: ${err.message}`);
+    }
+
+    // 校验结构化输出，不符合要求时携带错误要求模型重新输出
+    if (
+      !correction &&
+      responseFormat.isEnabled(options.responseFormat) &&
+      !answer.choices[0].message.tool_calls
+    ) {
+      const output = answer.choices[0].message.content;
+      const err = _.attempt(() =>
+        responseFormat.validate(output, options.responseFormat)
+      );
+      if (_.isError(err)) {
+        // 无论是否重试，不符合要求的输出所在会话都不再使用
+        if (!refConvId && !options.keepConversation)
+          removeConversation(answer.id, token).catch((err) => console.error(err));
+        const formatRetry = options.formatRetry || 0;
+        if (formatRetry >= config.system.responseFormatRetry) throw err;
+        logger.warn(
+          `Response format invalid, retrying (${formatRetry + 1}/${config.system.responseFormatRetry}): ${err.message}`
+        );
+        correction = {
+          messages: responseFormat.buildCorrectionMessages(messages, output, err),
+          options: { ...options, formatRetry: formatRetry + 1 },
+        };
+      }
+    }
+
+    if (!correction) {
+      // 引用或需保留的会话由客户端继续使用，记录所属token，否则异步移除会话
+      if (refConvId || options.keepConversation)
+        conversationAffinity.bind(answer.id, token);
+      else removeConversation(answer.id, token).catch((err) => console.error(err));
+      options.onComplete &&
+        options.onComplete({
+          convId: answer.id,
+          token,
+          content: answer.choices[0].message.content || "",
+        });
+    }
+  } finally {
+    // 后续处理结束后释放并发位，token状态只标记一次
+    release();
+    tokenPool.succeed(token, startTime);
+  }
+  if (!correction) return answer;
+  // 纠正请求独立计入token状态，失败时不会重新发起原请求
+  return createCompletion(
+    model,
+    correction.messages,
+    token,
+    refConvId,
+    { tokens: [] },
+    correction.options
+  );
 }
 
 /**
@@ -127,16 +341,36 @@ async function createCompletion(
  * @param messages 参考gpt系列消息格式，多轮对话请完整提供上下文
  * @param token 认证token
  * @param refConvId 引用对话ID
- * @param retryCount 重试次数
+ * @param retry 重试状态，tokens为可切换的候选token列表
+ * @param options 补全选项
  */
 async function createCompletionStream(
   model = MODEL_NAME,
   messages: any[],
   token: string,
   refConvId = "",
-  retryCount = 0
+  retry: RetryState = {},
+  options: CompletionOptions = {}
 ) {
-  let session: ClientHttp2Session;
+  // 结构化输出需要完整校验后才能输出，因此先同步补全再转换为流
+  if (responseFormat.isEnabled(options.responseFormat)) {
+    const answer = await createCompletion(
+      model,
+      messages,
+      token,
+      refConvId,
+      retry,
+      options
+    );
+    return createAnswerStream(answer, options.includeUsage);
+  }
+  checkCanceled(options.signal);
+  // 压缩超出上下文预算的历史消息，摘要请求需要在等待并发位之前完成
+  messages = await compactMessages(model, messages, token, options);
+  // 等待token并发位
+  const release = await tokenLimiter.acquire(token);
+  let session: SessionLease;
+  const startTime = tokenPool.begin(token);
   return (async () => {
     logger.info(messages);
 
@@ -151,13 +385,28 @@ async function createCompletionStream(
     // 如果引用对话ID不正确则重置引用
     if (!/[0-9]{18}/.test(refConvId)) refConvId = "";
 
+    // 启用工具调用时注入工具定义
+    const useTools = toolCalls.isEnabled(options.tools, options.toolChoice);
+    const preparedMessages = useTools
+      ? toolCalls.prepareMessages(messages, options.tools, options.toolChoice)
+      : messages;
+
+    const payload = messagesPrepare(
+      preparedMessages,
+      refs,
+      refConvId,
+      undefined,
+      options.webSearch,
+      modelRegistry.getOptions(model).characterId
+    );
+
     // 请求流
     const deviceInfo = await core.acquireDeviceInfo(token);
     let stream: ClientHttp2Stream;
     ({ session, stream } = await core.requestStream(
       "POST",
       "/v4/api/chat/msg",
-      messagesPrepare(messages, refs, refConvId),
+      payload,
       token,
       deviceInfo,
       {
@@ -171,35 +420,257 @@ async function createCompletionStream(
     ));
 
     const streamStartTime = util.timestamp();
-    // 创建转换流将消息格式转换为gpt兼容格式
-    return createTransStream(model, stream, (convId: string) => {
-      logger.success(
-        `Stream has completed transfer ${util.timestamp() - streamStartTime}ms`
-      );
-      // 流传输结束后异步移除会话
-      removeConversation(convId, token).catch(
-        (err) => !refConvId && console.error(err)
+    // 客户端断开时关闭上游流和会话
+    const unbindCancel = onCancel(options.signal, () => {
+      logger.warn(
+        `Stream canceled by client after ${util.timestamp() - startTime}ms`
       );
+      stream.close();
+      session.close();
     });
+    // 上游流结束或出错时释放并发位，纠正工具调用的请求需要重新获取并发位
+    let released = false;
+    const releaseStream = () => {
+      if (released) return;
+      released = true;
+      unbindCancel();
+      release();
+    };
+    stream.once("error", releaseStream);
+    stream.once("close", releaseStream);
+    // 转换流正常结束或中止后更新token健康状态，上游在流中返回的错误同样计入失败
+    let settled = false;
+    const settleToken = (err?: any) => {
+      if (settled) return;
+      settled = true;
+      if (isCanceled(options.signal)) tokenPool.cancel(token);
+      else if (err) tokenPool.fail(token, err, startTime);
+      else tokenPool.succeed(token, startTime);
+    };
+    // 引用或需保留的会话由客户端继续使用，记录所属token，否则异步移除会话
+    const settleConversation = (convId: string) => {
+      if (refConvId || options.keepConversation)
+        conversationAffinity.bind(convId, token);
+      else
+        removeConversation(convId, token).catch((err) => console.error(err));
+    };
+    // 创建转换流将消息格式转换为gpt兼容格式
+    return createTransStream(
+      model,
+      stream,
+      (convId: string, content: string) => {
+        tokenStats.recordLatency(token, util.timestamp() - streamStartTime);
+        logger.success(
+          `Stream has completed transfer ${util.timestamp() - streamStartTime}ms`
+        );
+        settleConversation(convId);
+        settleToken();
+        options.onComplete && options.onComplete({ convId, token, content });
+      },
+      {
+        tools: useTools ? options.tools : undefined,
+        // 工具调用格式错误时以同步补全要求模型纠正
+        repairToolCalls: async (output: string, err: any) => {
+          const answer = await createCompletion(
+            model,
+            toolCalls.buildCorrectionMessages(messages, output, err),
+            token,
+            refConvId,
+            { tokens: [] },
+            {
+              tools: options.tools,
+              toolChoice: options.toolChoice,
+              toolCallRetry: 1,
+              signal: options.signal,
+            }
+          );
+          const { content, tool_calls } = answer.choices[0].message;
+          if (!tool_calls) return null;
+          return {
+            content,
+            toolCalls: tool_calls.map((call, index) => ({ index, ...call })),
+          };
+        },
+        usagePrompt: options.includeUsage
+          ? getPromptText(payload, refs)
+          : undefined,
+        limits: options.limits,
+        // 上游流被中止时同样需要处理会话，未携带错误时视为上游提前关闭
+        abortCallback: (convId: string, err?: any) => {
+          convId && settleConversation(convId);
+          settleToken(
+            err ||
+            new APIException(
+              EX.API_REQUEST_FAILED,
+              "Stream closed before completion"
+            )
+          );
+        },
+      }
+    );
   })().catch((err) => {
     session && session.close();
     session = null;
-    if (retryCount < MAX_RETRY_COUNT) {
-      logger.error(`Stream response error: ${err.stack}`);
-      logger.warn(`Try again after ${RETRY_DELAY / 1000}s...`);
+    release();
+    // 客户端已断开时不再重试，也不计入token失败
+    if (isCanceled(options.signal)) {
+      tokenPool.cancel(token);
+      logger.warn(
+        `Stream canceled by client after ${util.timestamp() - startTime}ms`
+      );
+      checkCanceled(options.signal);
+    }
+    tokenPool.fail(token, err, startTime);
+    if (failover.shouldRetry(err, retry)) {
+      // 账号相关错误切换到其它token重试，瞬时网络错误在同一token上退避重试
+      const next = failover.plan(token, err, retry);
       return (async () => {
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+        await new Promise((resolve) => setTimeout(resolve, next.delay));
         return createCompletionStream(
           model,
           messages,
-          token,
+          next.token,
           refConvId,
-          retryCount + 1
+          next.retry,
+          options
         );
       })();
     }
+    throw failover.decorateError(err, token, retry);
+  });
+}
+
+/**
+ * 多选项对话补全
+ *
+ * 每个选项使用一个token并行补全，合并为多个choices返回
+ *
+ * @param model 模型名称
+ * @param messages 参考gpt系列消息格式，多轮对话请完整提供上下文
+ * @param tokens 每个选项使用的认证token
+ * @param retry 重试状态，tokens为可切换的候选token列表
+ * @param options 补全选项
+ */
+async function createMultipleCompletion(
+  model = MODEL_NAME,
+  messages: any[],
+  tokens: string[],
+  retry: RetryState = {},
+  options: CompletionOptions = {}
+) {
+  // 任一选项失败时中止其余选项，避免上游请求继续占用token
+  const { controller, unbind } = util.createLinkedAbortController(
+    options.signal
+  );
+  const answers = await Promise.all(
+    tokens.map((token) =>
+      createCompletion(model, _.cloneDeep(messages), token, "", retry, {
+        ...options,
+        signal: controller.signal,
+      })
+    )
+  )
+    .catch((err) => {
+      controller.abort();
+      throw err;
+    })
+    .finally(unbind);
+  return {
+    ...answers[0],
+    choices: answers.map((answer, index) => ({
+      ...answer.choices[0],
+      index,
+    })),
+    usage: mergeUsage(answers.map((answer) => answer.usage)),
+  };
+}
+
+/**
+ * 多选项流式对话补全
+ *
+ * 每个选项使用一个token并行补全，合并为一个流并以index区分选项
+ *
+ * @param model 模型名称
+ * @param messages 参考gpt系列消息格式，多轮对话请完整提供上下文
+ * @param tokens 每个选项使用的认证token
+ * @param retry 重试状态，tokens为可切换的候选token列表
+ * @param options 补全选项
+ */
+async function createMultipleCompletionStream(
+  model = MODEL_NAME,
+  messages: any[],
+  tokens: string[],
+  retry: RetryState = {},
+  options: CompletionOptions = {}
+) {
+  // 任一选项建立失败时中止其余选项，已建立的上游流随之关闭
+  const { controller, unbind } = util.createLinkedAbortController(
+    options.signal
+  );
+  const streams = await Promise.all(
+    tokens.map((token) =>
+      createCompletionStream(model, _.cloneDeep(messages), token, "", retry, {
+        ...options,
+        signal: controller.signal,
+      })
+    )
+  ).catch((err) => {
+    controller.abort();
+    unbind();
     throw err;
   });
+  const transStream = new PassThrough();
+  const usages = [];
+  let remaining = streams.length;
+  streams.forEach((stream, index) => {
+    util.readChunks(stream, (chunk) => {
+      // 错误数据块原样输出
+      if (chunk.error)
+        return (
+          !transStream.closed &&
+          transStream.write(`data: ${JSON.stringify(chunk)}\n\n`)
+        );
+      // 用量数据块合并后在结束前统一输出
+      if (chunk.usage && !chunk.choices.length) return usages.push(chunk.usage);
+      chunk.choices.forEach((choice) => (choice.index = index));
+      !transStream.closed &&
+        transStream.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    });
+    stream.once("close", () => {
+      if (--remaining > 0) return;
+      // 所有选项结束后解除与客户端取消信号的关联
+      unbind();
+      if (transStream.closed) return;
+      usages.length &&
+        transStream.write(
+          `data: ${JSON.stringify({
+            id: "",
+            model,
+            object: "chat.completion.chunk",
+            choices: [],
+            usage: mergeUsage(usages),
+            created: util.unixTimestamp(),
+          })}\n\n`
+        );
+      transStream.end("data: [DONE]\n\n");
+    });
+  });
+  return transStream;
+}
+
+/**
+ * 合并多个选项的用量，提示词只计算一次
+ *
+ * @param usages 用量列表
+ */
+function mergeUsage(usages: any[]) {
+  const prompt_tokens = usages[0].prompt_tokens;
+  const completion_tokens = _.sumBy(usages, "completion_tokens");
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
+  };
 }
 
 /**
@@ -208,15 +679,18 @@ async function createCompletionStream(
  * @param model 模型名称
  * @param content 复述内容
  * @param token 认证token
- * @param retryCount 重试次数
+ * @param retry 重试状态，tokens为可切换的候选token列表
  */
 async function createRepeatCompletion(
   model = MODEL_NAME,
   content: string,
   token: string,
-  retryCount = 0
+  retry: RetryState = {}
 ) {
-  let session: ClientHttp2Session;
+  // 等待token并发位
+  const release = await tokenLimiter.acquire(token);
+  let session: SessionLease;
+  const startTime = tokenPool.begin(token);
   return (async () => {
     // 请求流
     const deviceInfo = await core.acquireDeviceInfo(token);
@@ -226,12 +700,19 @@ async function createRepeatCompletion(
     ({ session, stream } = await core.requestStream(
       "POST",
       "/v4/api/chat/msg",
-      messagesPrepare([
-        {
-          role: "user",
-          content: `user:完整复述以下内容，不要进行任何修改，也不需要进行任何解释。\n${content}\nassistant:好的，我将开始完整复述：\n`,
-        },
-      ]),
+      messagesPrepare(
+        [
+          {
+            role: "user",
+            content: `user:完整复述以下内容，不要进行任何修改，也不需要进行任何解释。\n${content}\nassistant:好的，我将开始完整复述：\n`,
+          },
+        ],
+        [],
+        undefined,
+        undefined,
+        false,
+        modelRegistry.getOptions(model).characterId
+      ),
       token,
       deviceInfo,
       {
@@ -245,6 +726,8 @@ async function createRepeatCompletion(
     // 接收流为输出文本
     const answer = await receiveStream(model, stream, true);
     session.close();
+    release();
+    tokenPool.succeed(token, startTime);
 
     logger.info(`\n复述结果：\n${answer.choices[0].message.content}`);
 
@@ -252,18 +735,54 @@ async function createRepeatCompletion(
   })().catch((err) => {
     session && session.close();
     session = null;
-    if (retryCount < MAX_RETRY_COUNT) {
-      logger.error(`Stream response error: ${err.stack}`);
-      logger.warn(`Try again after ${RETRY_DELAY / 1000}s...`);
+    release();
+    tokenPool.fail(token, err, startTime);
+    if (failover.shouldRetry(err, retry)) {
+      // 账号相关错误切换到其它token重试，瞬时网络错误在同一token上退避重试
+      const next = failover.plan(token, err, retry);
       return (async () => {
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-        return createRepeatCompletion(model, content, token, retryCount + 1);
+        await new Promise((resolve) => setTimeout(resolve, next.delay));
+        return createRepeatCompletion(model, content, next.token, next.retry);
       })();
     }
-    throw err;
+    throw failover.decorateError(err, token, retry);
   });
 }
 
+/**
+ * 按上下文预算压缩历史消息
+ *
+ * @param model 模型名称
+ * @param messages 参考gpt系列消息格式
+ * @param token 认证token，用于生成摘要
+ * @param options 补全选项
+ */
+async function compactMessages(
+  model: string,
+  messages: any[],
+  token: string,
+  options: CompletionOptions
+) {
+  const result = await contextCompactor.compact(
+    model,
+    messages,
+    async (prompt: string) => {
+      const answer = await createCompletion(
+        model,
+        [{ role: "user", content: prompt }],
+        token
+      );
+      return answer.choices[0].message.content;
+    }
+  );
+  if (result.strategy == "none") return messages;
+  logger.info(
+    `History compacted by ${result.strategy}, ${result.dropped} messages dropped`
+  );
+  options.onCompact && options.onCompact(result);
+  return result.messages;
+}
+
 /**
  * 提取消息中引用的文件URL
  *
@@ -308,11 +827,17 @@ function extractRefFileUrls(messages: any[]) {
  * @param messages 参考gpt系列消息格式，多轮对话请完整提供上下文
  * @param refs 参考文件列表
  * @param refConvId 引用对话ID
+ * @param instruction 附加在对话末尾的输出要求
+ * @param webSearch 是否开启联网搜索
+ * @param characterId hailuo角色ID
  */
 function messagesPrepare(
   messages: any[],
   refs: any[] = [],
-  refConvId?: string
+  refConvId?: string,
+  instruction?: string,
+  webSearch = false,
+  characterId = CHARACTER_ID
 ) {
   let content;
   if (refConvId || messages.length < 2) {
@@ -325,6 +850,7 @@ function messagesPrepare(
       }
       return content + `${message.content}\n`;
     }, "");
+    if (instruction) content += `${instruction}\n`;
     logger.info("\n透传内容：\n" + content);
   } else {
     // 检查最新消息是否含有"type": "image_url"或"type": "file",如果有则注入消息
@@ -360,7 +886,9 @@ function messagesPrepare(
           }, content);
         }
         return (content += `${message.role}:${message.content}\n`);
-      }, "") + "assistant:\n"
+      }, "") +
+      (instruction ? `system:${instruction}\n` : "") +
+      "assistant:\n"
     )
       .trim()
       // 移除MD图像URL避免幻觉
@@ -368,10 +896,10 @@ function messagesPrepare(
     logger.info("\n对话合并：\n" + content);
   }
   return {
-    characterID: CHARACTER_ID,
+    characterID: characterId,
     msgContent: content,
     chatID: refConvId || "0",
-    searchMode: "0",
+    searchMode: webSearch ? "1" : "0",
     form:
       refs.length > 0
         ? JSON.stringify([
@@ -387,16 +915,62 @@ function messagesPrepare(
   };
 }
 
+/**
+ * 获取用于计算用量的提示词文本，包含合并后的消息和引用的文件
+ *
+ * @param payload 预处理后的消息
+ * @param refs 参考文件列表
+ */
+function getPromptText(payload: any, refs: any[] = []) {
+  return [...refs.map((ref) => ref.filename), payload.msgContent].join("\n");
+}
+
+/**
+ * 提取联网搜索来源为引用列表
+ *
+ * @param extra 消息附加数据
+ */
+function extractCitations(extra: any) {
+  const linkDetail = _.get(extra, "netSearchStatus.linkDetail");
+  if (!_.isArray(linkDetail)) return [];
+  return linkDetail
+    .filter((item) => _.isObject(item) && item["url"])
+    .map((item) => ({
+      type: "url_citation",
+      url_citation: {
+        url: item["url"],
+        title: item["detail"] || "未知来源",
+      },
+    }));
+}
+
+/**
+ * 渲染引用列表为markdown来源列表
+ *
+ * @param citations 引用列表
+ */
+function renderCitations(citations: any[]) {
+  return citations.reduce(
+    (str, { url_citation: { url, title } }) => str + `- [${title}](${url})\n`,
+    "\n\n搜索结果来自：\n"
+  );
+}
+
 /**
  * 从流接收完整的消息内容
  *
  * @param model 模型名称
  * @param stream 消息流
+ * @param message_id_required 是否需要返回消息ID
+ * @param format 输出格式，要求结构化输出时移除代码块标记
+ * @param limits 输出限制，达到限制时截断输出并提前结束上游流
  */
 async function receiveStream(
   model: string,
   stream: any,
-  message_id_required?: boolean
+  message_id_required?: boolean,
+  format?: any,
+  limits?: OutputLimits
 ): Promise<any> {
   return new Promise((resolve, reject) => {
     // 消息初始化
@@ -415,9 +989,40 @@ async function receiveStream(
       created: util.unixTimestamp(),
       message_id: message_id_required ? "" : undefined,
     };
+    let citations = [];
+    // 已接收的原始内容，用于计算增量
+    let received = "";
+    let finished = false;
+    const limiter = outputLimiter.create(model, limits);
+    // 结束接收并整理输出内容
+    const finish = (finishReason?: string) => {
+      if (finished) return;
+      finished = true;
+      const choice = data.choices[0];
+      choice.message.content += limiter.finish();
+      choice.finish_reason =
+        finishReason || limiter.getFinishReason() || "stop";
+      // 匹配到停止序列时返回该序列，供Anthropic等协议转换使用
+      const stopSequence = limiter.getStopSequence();
+      if (stopSequence) choice["stop_sequence"] = stopSequence;
+      // 联网搜索来源作为引用返回，按配置附加来源列表到内容末尾
+      if (citations.length) {
+        choice.message["annotations"] = citations;
+        if (
+          config.system.searchSourcesAppend &&
+          !responseFormat.isEnabled(format)
+        )
+          choice.message.content += renderCitations(citations);
+      }
+      if (responseFormat.isEnabled(format))
+        choice.message.content = responseFormat.stripFences(
+          choice.message.content
+        );
+      resolve(data);
+    };
     const parser = createParser((event) => {
       try {
-        if (event.type !== "event") return;
+        if (event.type !== "event" || finished) return;
         const eventName = event.event;
         // 解析JSON
         const result = _.attempt(() => JSON.parse(event.data));
@@ -427,43 +1032,110 @@ async function receiveStream(
         if (type == 8)
           return;
         const { code, message } = statusInfo || {};
-        if (code !== 0 && type != 3)
-          throw new Error(`Stream response error: ${message}`);
+        if (code !== 0 && type != 3) throw errorClassifier.classify(code, message);
         const { messageResult } = _data || {};
         if (eventName == "message_result" && messageResult) {
           const { chatID, msgID, isEnd, content, extra } = messageResult;
-          // const { netSearchStatus } = extra || {};
-          // const { linkDetail } = netSearchStatus || [];
+          const _citations = extractCitations(extra);
+          if (_citations.length) citations = _citations;
           if (!data.id) data.id = chatID;
           if (message_id_required && !data.message_id) data.message_id = msgID;
           const exceptCharIndex = content.indexOf("�");
           const chunk = content.substring(
             exceptCharIndex != -1
-              ? Math.min(
-                data.choices[0].message.content.length,
-                exceptCharIndex
-              )
-              : data.choices[0].message.content.length,
+              ? Math.min(received.length, exceptCharIndex)
+              : received.length,
             exceptCharIndex == -1 ? content.length : exceptCharIndex
           );
-          data.choices[0].message.content += chunk;
-          // if(isEnd === 0 && linkDetail.length) {
-          //   const refContent = linkDetail.reduce((str, item) => str + (item.url ? `${item.detail || '未知来源'} - ${item.url}\n` : ''), '');
-          //   data.choices[0].message.content += `\n\n搜索结果来自：\n${refContent}`;
-          // }
+          received += chunk;
+          data.choices[0].message.content += limiter.push(chunk);
+          // 达到停止序列或最大token数时提前结束上游流
+          if (limiter.getFinishReason()) {
+            finish();
+            stream.close();
+          }
         }
       } catch (err) {
         logger.error(err);
+        // 输出过程中内容被拦截时保留已输出的内容并以content_filter结束
+        if (received && openaiError.isContentFiltered(err)) {
+          finish("content_filter");
+          stream.close();
+          return;
+        }
         reject(err);
       }
     });
     // 将流数据喂给SSE转换器
     stream.on("data", (buffer) => parser.feed(buffer.toString()));
     stream.once("error", (err) => reject(err));
-    stream.once("close", () => resolve(data));
+    stream.once("close", () => finish());
   });
 }
 
+/**
+ * 将完整的补全结果转换为gpt兼容流格式
+ *
+ * @param answer 补全结果
+ * @param includeUsage 是否在结束前输出用量
+ */
+function createAnswerStream(answer: any, includeUsage = false) {
+  const transStream = new PassThrough();
+  const { message, finish_reason } = answer.choices[0];
+  const chunk = (delta: any, finishReason: string | null = null) =>
+    `data: ${JSON.stringify({
+      id: answer.id,
+      model: answer.model,
+      object: "chat.completion.chunk",
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      created: answer.created,
+    })}\n\n`;
+  transStream.write(chunk({ role: "assistant", content: "" }));
+  message.content && transStream.write(chunk({ content: message.content }));
+  message.tool_calls &&
+    transStream.write(
+      chunk({
+        tool_calls: message.tool_calls.map((call, index) => ({
+          index,
+          ...call,
+        })),
+      })
+    );
+  transStream.write(chunk({}, finish_reason));
+  includeUsage &&
+    transStream.write(
+      `data: ${JSON.stringify({
+        id: answer.id,
+        model: answer.model,
+        object: "chat.completion.chunk",
+        choices: [],
+        usage: answer.usage,
+        created: answer.created,
+      })}\n\n`
+    );
+  transStream.end("data: [DONE]\n\n");
+  return transStream;
+}
+
+/**
+ * 转换流选项
+ */
+interface TransStreamOptions {
+  /** 工具定义列表，提供时将工具调用块解析为tool_calls输出 */
+  tools?: any[];
+  /** 纠正格式错误的工具调用 */
+  repairToolCalls?: (
+    output: string,
+    err: any
+  ) => Promise<ParsedToolCalls | null>;
+  /** 用于计算用量的提示词文本，提供时在结束前输出用量 */
+  usagePrompt?: string;
+  /** 输出限制，达到限制时截断输出并提前结束上游流 */
+  limits?: OutputLimits;
+  /** 上游流未正常结束即关闭或出错时的回调，获得已知的会话ID和错误 */
+  abortCallback?: (convId: string, err?: any) => void;
+}
+
 /**
  * 创建转换流
  *
@@ -472,14 +1144,81 @@ async function receiveStream(
  * @param model 模型名称
  * @param stream 消息流
  * @param endCallback 传输结束回调
+ * @param options 转换流选项
  */
-function createTransStream(model: string, stream: any, endCallback?: Function) {
+function createTransStream(
+  model: string,
+  stream: any,
+  endCallback?: Function,
+  options: TransStreamOptions = {}
+) {
+  const { tools, repairToolCalls, usagePrompt, limits, abortCallback } =
+    options;
   // 消息创建时间
   const created = util.unixTimestamp();
   // 创建转换流
   const transStream = new PassThrough();
   let convId = "";
   let content = "";
+  // 已接收的原始内容，用于计算增量
+  let received = "";
+  // 工具调用块不直接输出，待结束后解析为tool_calls
+  const splitter = tools ? toolCalls.createStreamSplitter() : null;
+  const limiter = outputLimiter.create(model, limits);
+  let finishing = false;
+  let citations = [];
+  const writeChunk = (delta: any, finishReason: string | null = null) =>
+    !transStream.closed &&
+    transStream.write(
+      `data: ${JSON.stringify({
+        id: convId,
+        model,
+        object: "chat.completion.chunk",
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        created,
+      })}\n\n`
+    );
+  // 正常结束传输，客户端要求时在结束前输出用量
+  const endStream = () => {
+    if (transStream.closed) return;
+    if (!_.isUndefined(usagePrompt))
+      transStream.write(
+        `data: ${JSON.stringify({
+          id: convId,
+          model,
+          object: "chat.completion.chunk",
+          choices: [],
+          usage: tokenizer.createUsage(model, usagePrompt, content),
+          created,
+        })}\n\n`
+      );
+    transStream.end("data: [DONE]\n\n");
+  };
+  // 输出工具调用或回退为文本后结束传输
+  const finishToolCalls = async (chatID: string) => {
+    finishing = true;
+    const { text, block } = splitter.finish();
+    text && writeChunk({ content: text });
+    let parsed: ParsedToolCalls | Error | null = block
+      ? _.attempt(() => toolCalls.parse(block, tools))
+      : null;
+    // 工具调用块之前的文本已输出，直接解析成功时结果中的文本为块之后的内容
+    const trailing = parsed && !_.isError(parsed) ? parsed.content : null;
+    if (_.isError(parsed)) {
+      logger.warn(`Tool calls invalid, correcting: ${parsed.message}`);
+      parsed = await repairToolCalls(content, parsed).catch((err) => {
+        logger.error(err);
+        return null;
+      });
+    }
+    if (parsed && !_.isError(parsed) && parsed.toolCalls.length) {
+      trailing && writeChunk({ content: trailing });
+      writeChunk({ tool_calls: parsed.toolCalls });
+      writeChunk({}, "tool_calls");
+    } else writeChunk({ content: block }, "stop");
+    endStream();
+    endCallback && endCallback(chatID, content);
+  };
   !transStream.closed &&
     transStream.write(
       `data: ${JSON.stringify({
@@ -498,7 +1237,7 @@ function createTransStream(model: string, stream: any, endCallback?: Function) {
     );
   const parser = createParser((event) => {
     try {
-      if (event.type !== "event") return;
+      if (event.type !== "event" || finishing) return;
       const eventName = event.event;
       // 解析JSON
       const result = _.attempt(() => JSON.parse(event.data));
@@ -506,6 +1245,7 @@ function createTransStream(model: string, stream: any, endCallback?: Function) {
         throw new Error(`Stream response invalid: ${event.data}`);
       const { type, statusInfo, data: _data } = result;
       if (type == 8) {
+        if (splitter) return finishToolCalls(convId);
         const data = `data: ${JSON.stringify({
           id: convId,
           model,
@@ -520,24 +1260,51 @@ function createTransStream(model: string, stream: any, endCallback?: Function) {
           created,
         })}\n\n`;
         !transStream.closed && transStream.write(data);
-        return transStream.end("data: [DONE]\n\n");
+        finishing = true;
+        endStream();
+        endCallback && endCallback(convId, content);
+        return;
       }
       const { code, message } = statusInfo || {};
-      if (code !== 0 && type != 3)
-        throw new Error(`Stream response error: ${message}`);
+      if (code !== 0 && type != 3) throw errorClassifier.classify(code, message);
       const { messageResult } = _data || {};
       if (eventName == "message_result" && messageResult) {
         const { chatID, isEnd, content: text, extra } = messageResult;
+        const _citations = extractCitations(extra);
+        if (_citations.length) citations = _citations;
         if (isEnd !== 0 && !text) return;
         if (!convId) convId = chatID;
         const exceptCharIndex = text.indexOf("�");
         const chunk = text.substring(
           exceptCharIndex != -1
-            ? Math.min(content.length, exceptCharIndex)
-            : content.length,
+            ? Math.min(received.length, exceptCharIndex)
+            : received.length,
           exceptCharIndex == -1 ? text.length : exceptCharIndex
         );
-        content += chunk;
+        received += chunk;
+        // 按停止序列和最大token数截断，达到限制时提前结束上游流
+        let output = limiter.push(chunk);
+        if (isEnd === 0) output += limiter.finish();
+        const limitReason = limiter.getFinishReason();
+        limitReason && stream.close();
+        const isFinal = isEnd === 0 || !!limitReason;
+        content += output;
+        if (splitter) {
+          const text = splitter.push(output);
+          text && writeChunk({ content: text });
+          isFinal && finishToolCalls(chatID);
+          return;
+        }
+        const delta = { content: output };
+        // 联网搜索来源随最后一个数据块输出
+        if (isFinal && citations.length) {
+          delta["annotations"] = citations;
+          if (config.system.searchSourcesAppend) {
+            const sources = renderCitations(citations);
+            delta.content += sources;
+            content += sources;
+          }
+        }
         const data = `data: ${JSON.stringify({
           id: convId,
           model,
@@ -545,21 +1312,34 @@ function createTransStream(model: string, stream: any, endCallback?: Function) {
           choices: [
             {
               index: 0,
-              delta: { content: chunk },
-              finish_reason: isEnd === 0 ? "stop" : null,
+              delta,
+              finish_reason: isFinal ? limitReason || "stop" : null,
+              // 匹配到停止序列时返回该序列，未匹配时不输出该字段
+              stop_sequence: limiter.getStopSequence() || undefined,
             },
           ],
           created,
         })}\n\n`;
         !transStream.closed && transStream.write(data);
-        if (isEnd === 0) {
-          !transStream.closed && transStream.end("data: [DONE]\n\n");
-          endCallback && endCallback(chatID);
+        if (isFinal) {
+          finishing = true;
+          endStream();
+          endCallback && endCallback(chatID, content);
         }
       }
     } catch (err) {
       logger.error(err);
-      if (!transStream.closed) {
+      if (transStream.closed) return;
+      // 内容被拦截时保留已输出的内容并以content_filter结束
+      if (openaiError.isContentFiltered(err)) {
+        finishing = true;
+        writeChunk({}, "content_filter");
+        endStream();
+        endCallback && endCallback(convId, content);
+        return;
+      }
+      // 旧版错误格式将错误消息作为输出内容
+      if (openaiError.isLegacy())
         transStream.write(
           `data: ${JSON.stringify({
             id: convId,
@@ -577,26 +1357,33 @@ function createTransStream(model: string, stream: any, endCallback?: Function) {
             created,
           })}\n\n`
         );
-        transStream.end("data: [DONE]\n\n");
-      }
+      abortStream(err);
     }
   });
   // 将流数据喂给SSE转换器
   stream.on("data", (buffer) => parser.feed(buffer.toString()));
-  stream.once(
-    "error",
-    () => !transStream.closed && transStream.end("data: [DONE]\n\n")
-  );
-  stream.once(
-    "close",
-    () => !transStream.closed && transStream.end("data: [DONE]\n\n")
-  );
+  // 上游流未正常结束即关闭时结束传输，出错时先输出错误数据块
+  const abortStream = (err?: any) => {
+    if (finishing) return;
+    finishing = true;
+    if (!transStream.writableEnded) {
+      err &&
+        !openaiError.isLegacy() &&
+        transStream.write(openaiError.createErrorChunk(err));
+      transStream.end("data: [DONE]\n\n");
+    }
+    abortCallback && abortCallback(convId, err);
+  };
+  stream.once("error", abortStream);
+  stream.once("close", () => abortStream());
   return transStream;
 }
 
 export default {
   createCompletion,
   createCompletionStream,
+  createMultipleCompletion,
+  createMultipleCompletionStream,
   createRepeatCompletion,
   removeConversation,
 };
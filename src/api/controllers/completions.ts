@@ -0,0 +1,123 @@
+import { PassThrough } from "stream";
+import _ from "lodash";
+
+import util from "@/lib/util.ts";
+
+/**
+ * 构建单轮对话消息
+ *
+ * 提供后缀时要求模型补全提示词与后缀之间的内容
+ *
+ * @param prompt 提示词
+ * @param suffix 后缀
+ */
+function buildMessages(prompt: string, suffix?: string) {
+  if (!suffix) return [{ role: "user", content: prompt }];
+  return [
+    {
+      role: "user",
+      content: `请补全以下文本中【待补全】处的内容，只输出补全的内容，不要输出其它解释：\n${prompt}【待补全】${suffix}`,
+    },
+  ];
+}
+
+/**
+ * 转换补全结果为文本补全对象
+ *
+ * @param model 模型名称
+ * @param answers 每个提示词的补全结果
+ * @param prompts 提示词列表
+ * @param echo 是否在输出前回显提示词
+ */
+function convertAnswers(
+  model: string,
+  answers: any[],
+  prompts: string[],
+  echo = false
+) {
+  const usage = answers.reduce(
+    (usage, answer) => ({
+      prompt_tokens: usage.prompt_tokens + answer.usage.prompt_tokens,
+      completion_tokens:
+        usage.completion_tokens + answer.usage.completion_tokens,
+      total_tokens: usage.total_tokens + answer.usage.total_tokens,
+    }),
+    { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  );
+  return {
+    id: `cmpl-${answers[0].id}`,
+    object: "text_completion",
+    created: util.unixTimestamp(),
+    model: model || answers[0].model,
+    choices: answers.map((answer, index) => {
+      const { message, finish_reason } = answer.choices[0];
+      return {
+        text: (echo ? prompts[index] : "") + (message.content || ""),
+        index,
+        logprobs: null,
+        finish_reason,
+      };
+    }),
+    usage,
+  };
+}
+
+/**
+ * 将多个gpt兼容流合并转换为文本补全流
+ *
+ * @param model 模型名称
+ * @param streams 每个提示词的gpt兼容流
+ * @param prompts 提示词列表
+ * @param echo 是否在输出前回显提示词
+ */
+function createTextStream(
+  model: string,
+  streams: any[],
+  prompts: string[],
+  echo = false
+) {
+  const transStream = new PassThrough();
+  const id = `cmpl-${util.uuid(false)}`;
+  const created = util.unixTimestamp();
+  const writeChunk = (index: number, text: string, finishReason = null) =>
+    !transStream.writableEnded &&
+    transStream.write(
+      `data: ${JSON.stringify({
+        id,
+        object: "text_completion",
+        created,
+        model,
+        choices: [
+          { text, index, logprobs: null, finish_reason: finishReason },
+        ],
+      })}\n\n`
+    );
+  let remaining = streams.length;
+  streams.forEach((stream, index) => {
+    echo && writeChunk(index, prompts[index]);
+    util.readChunks(stream, (chunk) => {
+      // 错误数据块原样输出
+      if (chunk.error)
+        return (
+          !transStream.writableEnded &&
+          transStream.write(`data: ${JSON.stringify(chunk)}\n\n`)
+        );
+      const choice = chunk.choices[0];
+      if (!choice) return;
+      const text = (choice.delta && choice.delta.content) || "";
+      if (text || choice.finish_reason)
+        writeChunk(index, text, choice.finish_reason || null);
+    });
+    stream.once("close", () => {
+      if (--remaining > 0 || transStream.writableEnded) return;
+      transStream.end("data: [DONE]\n\n");
+    });
+  });
+  return transStream;
+}
+
+export default {
+  buildMessages,
+  convertAnswers,
+  createTextStream,
+};
@@ -0,0 +1,235 @@
+import _ from "lodash";
+
+import tokenizer from "./tokenizer.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+// 最大缓存摘要数
+const MAX_SUMMARY_CACHE = 1000;
+// 中间截断时插入的省略标记
+const TRUNCATION_MARK = "\n……（中间内容已省略）……\n";
+
+/**
+ * 压缩策略
+ */
+export type CompactionStrategy =
+  | "none"
+  | "drop_oldest"
+  | "middle_out"
+  | "summarize";
+
+/**
+ * 压缩结果
+ */
+export interface CompactionResult {
+  /** 压缩后的消息列表 */
+  messages: any[];
+  /** 实际采用的策略，未超出预算时为none */
+  strategy: CompactionStrategy;
+  /** 被移除或被摘要替代的消息数 */
+  dropped: number;
+}
+
+// 历史消息哈希到摘要的缓存
+const summaryCache = util.createLRUCache<string>(MAX_SUMMARY_CACHE);
+
+/**
+ * 获取消息的文本内容
+ *
+ * @param message 消息
+ */
+function textOf(message: any) {
+  let text = "";
+  if (_.isString(message.content)) text = message.content;
+  else if (_.isArray(message.content))
+    text = message.content
+      .filter((v) => _.isObject(v) && v["type"] == "text")
+      .map((v) => v["text"] || "")
+      .join("\n");
+  if (_.isArray(message.tool_calls))
+    text += JSON.stringify(message.tool_calls);
+  return text;
+}
+
+/**
+ * 计算消息的token数，包含角色前缀
+ *
+ * @param model 模型名称
+ * @param message 消息
+ */
+function countMessage(model: string, message: any) {
+  return tokenizer.count(model, `${message.role}:${textOf(message)}`);
+}
+
+/**
+ * 获取模型的上下文token预算
+ *
+ * @param model 模型名称
+ */
+function getBudget(model: string) {
+  const budgets = config.system.contextTokenBudgets || {};
+  return _.defaultTo(budgets[model], config.system.contextTokenBudget);
+}
+
+/**
+ * 计算消息列表的token数
+ *
+ * @param model 模型名称
+ * @param messages 消息列表
+ */
+function countMessages(model: string, messages: any[]) {
+  return _.sumBy(messages, (message) => countMessage(model, message));
+}
+
+/**
+ * 移除最早的非系统消息直到不超出预算，系统消息和最新消息始终保留
+ *
+ * @param model 模型名称
+ * @param messages 消息列表
+ * @param budget token预算
+ */
+function dropOldest(model: string, messages: any[], budget: number) {
+  const result = [...messages];
+  let total = countMessages(model, result);
+  let dropped = 0;
+  while (total > budget) {
+    const index = result.findIndex(
+      (message, i) => message.role != "system" && i < result.length - 1
+    );
+    if (index == -1) break;
+    total -= countMessage(model, result[index]);
+    result.splice(index, 1);
+    dropped++;
+  }
+  return { messages: result, dropped };
+}
+
+/**
+ * 从中间向两侧移除非系统消息直到不超出预算，系统消息、首条和最新消息始终保留，仍超出时截断最新消息的中间部分
+ *
+ * @param model 模型名称
+ * @param messages 消息列表
+ * @param budget token预算
+ */
+function middleOut(model: string, messages: any[], budget: number) {
+  const result = [...messages];
+  let total = countMessages(model, result);
+  let dropped = 0;
+  while (total > budget) {
+    const candidates = result
+      .map((message, index) => ({ message, index }))
+      .filter(({ message }) => message.role != "system")
+      .slice(1, -1);
+    if (!candidates.length) break;
+    const { index } = candidates[Math.floor(candidates.length / 2)];
+    total -= countMessage(model, result[index]);
+    result.splice(index, 1);
+    dropped++;
+  }
+  const lastMessage = result[result.length - 1];
+  if (total > budget && lastMessage && _.isString(lastMessage.content)) {
+    const content = lastMessage.content;
+    const ratio = Math.max(
+      1 - (total - budget) / countMessage(model, lastMessage),
+      0
+    );
+    const keepLength = Math.floor((content.length * ratio) / 2);
+    result[result.length - 1] = {
+      ...lastMessage,
+      content:
+        content.substring(0, keepLength) +
+        TRUNCATION_MARK +
+        content.substring(content.length - keepLength),
+    };
+  }
+  return { messages: result, dropped };
+}
+
+/**
+ * 将较早的消息替换为摘要，系统消息和预算一半以内的最近消息保留原文
+ *
+ * @param model 模型名称
+ * @param messages 消息列表
+ * @param budget token预算
+ * @param summarize 生成摘要的方法
+ */
+async function summarizeOlder(
+  model: string,
+  messages: any[],
+  budget: number,
+  summarize: (prompt: string) => Promise<string>
+) {
+  const systemMessages = messages.filter((message) => message.role == "system");
+  const others = messages.filter((message) => message.role != "system");
+  // 从最新消息开始保留，直到占满预算的一半
+  let recentTokens = 0;
+  let splitIndex = others.length;
+  while (splitIndex > 1) {
+    const tokens = countMessage(model, others[splitIndex - 1]);
+    if (recentTokens + tokens > budget / 2) break;
+    recentTokens += tokens;
+    splitIndex--;
+  }
+  if (splitIndex == others.length) splitIndex--;
+  const older = others.slice(0, splitIndex);
+  if (!older.length) return null;
+  const transcript = older
+    .map((message) => `${message.role}:${textOf(message)}`)
+    .join("\n");
+  const hash = util.md5(transcript);
+  let summary = summaryCache.get(hash);
+  if (!summary) {
+    summary = await summarize(
+      `请用简洁的语言总结以下对话的要点，保留关键事实、数据、结论和未解决的问题，只输出摘要：\n${transcript}`
+    );
+    summaryCache.set(hash, summary);
+  }
+  return {
+    messages: [
+      ...systemMessages,
+      { role: "system", content: `以下是之前对话的摘要：\n${summary}` },
+      ...others.slice(splitIndex),
+    ],
+    dropped: older.length,
+  };
+}
+
+/**
+ * 按上下文预算压缩消息列表
+ *
+ * 未超出预算时原样返回，摘要失败时退回移除最早消息的策略
+ *
+ * @param model 模型名称
+ * @param messages 消息列表
+ * @param summarize 生成摘要的方法
+ */
+async function compact(
+  model: string,
+  messages: any[],
+  summarize?: (prompt: string) => Promise<string>
+): Promise<CompactionResult> {
+  const strategy = config.system.contextStrategy as CompactionStrategy;
+  const budget = getBudget(model);
+  if (
+    strategy == "none" ||
+    !budget ||
+    countMessages(model, messages) <= budget
+  )
+    return { messages, strategy: "none", dropped: 0 };
+  if (strategy == "middle_out")
+    return { ...middleOut(model, messages, budget), strategy };
+  if (strategy == "summarize" && summarize) {
+    const result = await summarizeOlder(model, messages, budget, summarize)
+      .catch((err) => {
+        logger.warn(`Summarize history failed: ${err.message}`);
+        return null;
+      });
+    if (result) return { ...result, strategy };
+  }
+  return { ...dropOldest(model, messages, budget), strategy: "drop_oldest" };
+}
+
+export default {
+  compact,
+};
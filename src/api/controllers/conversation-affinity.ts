@@ -0,0 +1,68 @@
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import tokenPool from "./token-pool.ts";
+import util from "@/lib/util.ts";
+
+// 最大记录会话数
+const MAX_ENTRIES = 10000;
+// 记录有效期（毫秒）
+const ENTRY_EXPIRES = 86400000;
+
+// 会话ID到所属token的映射
+const ownerCache = util.createLRUCache<string>(MAX_ENTRIES, ENTRY_EXPIRES);
+
+/**
+ * 记录会话所属token
+ *
+ * @param convId 会话ID
+ * @param token 认证token
+ */
+function bind(convId: string, token: string) {
+  if (!convId || !token) return;
+  ownerCache.set(convId, token);
+}
+
+/**
+ * 获取会话所属token
+ *
+ * @param convId 会话ID
+ */
+function getOwner(convId: string): string | null {
+  return ownerCache.get(convId) || null;
+}
+
+/**
+ * 移除会话记录
+ *
+ * @param convId 会话ID
+ */
+function unbind(convId: string) {
+  ownerCache.delete(convId);
+}
+
+/**
+ * 为会话挑选token
+ *
+ * 已知所属token的会话必须使用所属token继续对话，否则从token池挑选
+ *
+ * @param tokens Token列表
+ * @param convId 会话ID
+ */
+function select(tokens: string[], convId?: string) {
+  if (!convId || !/[0-9]{18}/.test(convId)) return tokenPool.select(tokens);
+  const owner = getOwner(convId);
+  if (!owner) return tokenPool.select(tokens);
+  if (!tokens.includes(owner) || tokenPool.isDisabled(owner))
+    throw new APIException(
+      EX.API_CONVERSATION_OWNER_UNAVAILABLE,
+      `Conversation ${convId} belongs to a token that is not provided in this request or has been disabled`
+    );
+  return owner;
+}
+
+export default {
+  select,
+  bind,
+  getOwner,
+  unbind,
+};
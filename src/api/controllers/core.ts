@@ -1,4 +1,3 @@
-import http2, { ClientHttp2Session } from "http2";
 import path from "path";
 import fs from "fs";
 import _ from "lodash";
@@ -9,6 +8,9 @@ import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 
 import APIException from "@/lib/exceptions/APIException.ts";
 import EX from "@/api/consts/exceptions.ts";
+import sessionPool, { SessionPool } from "./session-pool.ts";
+import errorClassifier from "./error-classifier.ts";
+import config from "@/lib/config.ts";
 import logger from "@/lib/logger.ts";
 import util from "@/lib/util.ts";
 
@@ -54,10 +56,75 @@ const SENTRY_RELEASE = "CI7N-1MjJnx5pru-bzzhR";
 const SENTRY_PUBLIC_KEY = "6cf106db5c7b7262eae7cc6b411c776a";
 // 文件最大大小
 const FILE_MAX_SIZE = 100 * 1024 * 1024;
-// 设备信息映射
-const deviceInfoMap = new Map();
+// 设备信息映射（以token哈希为键，避免将token明文写入缓存文件）
+const deviceInfoMap: Map<string, any> = loadDeviceInfoCache();
+// 设备信息缓存写入定时器
+let deviceInfoSaveTimer: NodeJS.Timeout | null = null;
 // 设备信息请求队列映射
 const deviceInfoRequestQueueMap: Record<string, Function[]> = {};
+// HTTP/2会话池，首次请求时创建
+let streamSessionPool: SessionPool | null = null;
+
+/**
+ * 从缓存文件加载设备信息
+ *
+ * 服务重启后复用已注册的设备，避免重复注册设备
+ */
+function loadDeviceInfoCache() {
+  const map = new Map<string, any>();
+  const filePath = config.system.deviceInfoCacheFilePath;
+  try {
+    if (!fs.existsSync(filePath)) return map;
+    const data = JSON.parse(fs.readFileSync(filePath).toString());
+    for (let key in data) {
+      if (data[key] && data[key].refreshTime > util.unixTimestamp())
+        map.set(key, data[key]);
+    }
+    logger.info(`Loaded ${map.size} device info from cache`);
+  } catch (err) {
+    logger.warn(`Device info cache load failed: ${err.message}`);
+  }
+  return map;
+}
+
+/**
+ * 将设备信息写入缓存文件
+ *
+ * 合并短时间内的多次变更后原子写入
+ */
+function saveDeviceInfoCache() {
+  if (deviceInfoSaveTimer) return;
+  deviceInfoSaveTimer = setTimeout(() => {
+    deviceInfoSaveTimer = null;
+    util
+      .writeFileAtomic(
+        config.system.deviceInfoCacheFilePath,
+        JSON.stringify(Object.fromEntries(deviceInfoMap))
+      )
+      .catch((err) => logger.error("Device info cache save failed:", err));
+  }, 1000);
+}
+
+/**
+ * 获取缓存的设备信息
+ *
+ * @param token 认证token
+ */
+function getCachedDeviceInfo(token: string) {
+  return deviceInfoMap.get(util.md5(token));
+}
+
+/**
+ * 设置缓存的设备信息，传入null则移除
+ *
+ * @param token 认证token
+ * @param deviceInfo 设备信息
+ */
+function setCachedDeviceInfo(token: string, deviceInfo: any) {
+  if (deviceInfo) deviceInfoMap.set(util.md5(token), deviceInfo);
+  else deviceInfoMap.delete(util.md5(token));
+  saveDeviceInfoCache();
+}
 
 /**
  * 请求设备信息
@@ -119,16 +186,20 @@ async function requestDeviceInfo(token: string) {
  * 避免短时间大量刷新token，未加锁，如果有并发要求还需加锁
  *
  * @param token 认证token
+ * @param refreshAhead 提前刷新的秒数，用于在过期前预热设备信息
  */
-async function acquireDeviceInfo(token: string): Promise<string> {
-  let result = deviceInfoMap.get(token);
+async function acquireDeviceInfo(
+  token: string,
+  refreshAhead = 0
+): Promise<string> {
+  let result = getCachedDeviceInfo(token);
   if (!result) {
     result = await requestDeviceInfo(token);
-    deviceInfoMap.set(token, result);
+    setCachedDeviceInfo(token, result);
   }
-  if (util.unixTimestamp() > result.refreshTime) {
+  if (util.unixTimestamp() + refreshAhead > result.refreshTime) {
     result = await requestDeviceInfo(token);
-    deviceInfoMap.set(token, result);
+    setCachedDeviceInfo(token, result);
   }
   return result;
 }
@@ -276,7 +347,7 @@ function checkResult(result: AxiosResponse) {
   if (!_.isObject(statusInfo)) return result.data;
   const { code, message } = statusInfo as any;
   if (code === 0) return data;
-  throw new APIException(EX.API_REQUEST_FAILED, `[请求hailuo失败]: ${message}`);
+  throw errorClassifier.classify(code, message, `[请求hailuo失败]: ${message}`);
 }
 
 /**
@@ -288,6 +359,16 @@ function tokenSplit(authorization: string) {
   return authorization.replace("Bearer ", "").split(",");
 }
 
+/**
+ * Token脱敏
+ *
+ * @param token 认证token
+ */
+function maskToken(token: string) {
+  if (!token || token.length <= 12) return "****";
+  return `${token.substring(0, 4)}****${token.substring(token.length - 6)}`;
+}
+
 /**
  * 发起请求
  *
@@ -345,6 +426,8 @@ async function request(
 /**
  * 发起HTTP2.0流式请求
  *
+ * 复用会话池中的连接，返回的会话租约关闭时只结束本次请求流
+ *
  * @param method 请求方法
  * @param uri 请求uri
  * @param data 请求数据
@@ -395,14 +478,8 @@ async function requestStream(
     encodeURIComponent(`${uri}?${queryStr}`) +
       `_${dataJson}${util.md5(unix)}ooui`
   );
-  const session: ClientHttp2Session = await new Promise((resolve, reject) => {
-    const session = http2.connect("https://hailuoai.com");
-    session.on("connect", () => resolve(session));
-    session.on("error", reject);
-  });
-
   const traceId = util.uuid(false);
-  const stream = session.request({
+  const { session, stream } = await getSessionPool().request({
     ":method": method,
     ":path": `${uri}?${queryStr}`,
     ":scheme": "https",
@@ -425,9 +502,13 @@ async function requestStream(
 }
 
 /**
- * 获取Token存活状态
+ * 获取Token用户信息
+ *
+ * 获取失败时清除该token的设备信息缓存并返回null
+ *
+ * @param token 认证token
  */
-async function getTokenLiveStatus(token: string) {
+async function getTokenInfo(token: string): Promise<any> {
   const deviceInfo = await acquireDeviceInfo(token);
   const result = await request(
     "GET",
@@ -438,13 +519,58 @@ async function getTokenLiveStatus(token: string) {
   );
   try {
     const { userInfo } = checkResult(result);
-    return _.isObject(userInfo);
+    return _.isObject(userInfo) ? userInfo : null;
   } catch (err) {
-    deviceInfoMap.delete(token);
-    return false;
+    setCachedDeviceInfo(token, null);
+    return null;
   }
 }
 
+/**
+ * 获取Token存活状态
+ */
+async function getTokenLiveStatus(token: string) {
+  return _.isObject(await getTokenInfo(token));
+}
+
+/**
+ * 获取HTTP/2会话池
+ */
+function getSessionPool() {
+  if (!streamSessionPool)
+    streamSessionPool = sessionPool.create({
+      authority: "https://hailuoai.com",
+      maxStreams: config.system.http2MaxStreams,
+      pingInterval: config.system.http2PingInterval,
+      idleTimeout: config.system.http2IdleTimeout,
+    });
+  return streamSessionPool;
+}
+
+/**
+ * 替换HTTP/2会话池，如测试时指向本地服务
+ *
+ * @param pool 会话池
+ */
+function setSessionPool(pool: SessionPool) {
+  streamSessionPool && streamSessionPool.destroy();
+  streamSessionPool = pool;
+}
+
+/**
+ * 获取Token设备注册状态
+ *
+ * @param token 认证token
+ */
+function getDeviceInfoStatus(token: string) {
+  const deviceInfo = getCachedDeviceInfo(token);
+  return {
+    registered: !!deviceInfo,
+    expired: deviceInfo ? util.unixTimestamp() > deviceInfo.refreshTime : false,
+    refreshTime: deviceInfo ? deviceInfo.refreshTime : null,
+  };
+}
+
 export default {
   acquireDeviceInfo,
   request,
@@ -453,5 +579,10 @@ export default {
   checkFileUrl,
   uploadFile,
   tokenSplit,
+  maskToken,
+  getTokenInfo,
   getTokenLiveStatus,
+  getDeviceInfoStatus,
+  getSessionPool,
+  setSessionPool,
 };
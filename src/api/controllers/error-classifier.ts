@@ -0,0 +1,84 @@
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import Exception from "@/lib/exceptions/Exception.ts";
+import EX from "@/api/consts/exceptions.ts";
+import config from "@/lib/config.ts";
+
+// 上游错误消息特征到异常的映射，错误码未配置映射时按消息匹配
+const MESSAGE_RULES: [RegExp, (string | number)[]][] = [
+  [/登录|未授权|过期|unauthorized|expired|invalid token/i, EX.API_TOKEN_EXPIRES],
+  [/敏感|违规|违反|合规|content (filter|policy)/i, EX.API_CONTENT_FILTERED],
+  [/正在(回复|生成|输出)|频繁|稍后再试|too many requests/i, EX.API_CHAT_STREAM_PUSHING],
+];
+// 不可重试的异常，与token无关，重试或切换token也会得到相同结果
+const NON_RETRYABLE_EXCEPTIONS = [
+  EX.API_REQUEST_PARAMS_INVALID,
+  EX.API_FILE_URL_INVALID,
+  EX.API_FILE_EXECEEDS_SIZE,
+  EX.API_CONTENT_FILTERED,
+  EX.API_CONVERSATION_OWNER_UNAVAILABLE,
+  EX.API_KEY_INVALID,
+  EX.API_TOOL_CALL_INVALID,
+  EX.API_RESPONSE_FORMAT_INVALID,
+  EX.API_REQUEST_CANCELED,
+  EX.API_MODEL_NOT_SUPPORTED,
+];
+
+/**
+ * 按配置的错误码映射查找异常
+ *
+ * @param code 上游错误码
+ */
+function matchCode(code: any) {
+  if (_.isNil(code)) return null;
+  const name = (config.system.upstreamErrorCodes || {})[`${code}`];
+  return name && EX[name] ? EX[name] : null;
+}
+
+/**
+ * 按错误消息特征查找异常
+ *
+ * @param message 上游错误消息
+ */
+function matchMessage(message: string) {
+  if (!_.isString(message)) return null;
+  const rule = MESSAGE_RULES.find(([pattern]) => pattern.test(message));
+  return rule ? rule[1] : null;
+}
+
+/**
+ * 将上游错误码和消息转换为异常
+ *
+ * 优先按配置的错误码映射，其次按消息特征匹配，均未匹配时为请求失败，上游错误码记录在异常数据中
+ *
+ * @param code 上游statusInfo或流式响应中的错误码
+ * @param message 上游错误消息
+ * @param errmsg 异常消息，默认为流式响应错误
+ */
+function classify(
+  code: any,
+  message: string,
+  errmsg = `Stream response error: ${message}`
+) {
+  const exception =
+    matchCode(code) || matchMessage(message) || EX.API_REQUEST_FAILED;
+  return new APIException(exception, errmsg).setData({ upstreamCode: code });
+}
+
+/**
+ * 判断错误是否可重试
+ *
+ * 未分类的错误（如网络错误）视为可重试
+ *
+ * @param err 错误对象
+ */
+function isRetryable(err: any) {
+  if (!(err instanceof Exception)) return true;
+  return !NON_RETRYABLE_EXCEPTIONS.some((exception) => err.compare(exception));
+}
+
+export default {
+  classify,
+  isRetryable,
+};
@@ -0,0 +1,138 @@
+import _ from "lodash";
+
+import Exception from "@/lib/exceptions/Exception.ts";
+import core from "./core.ts";
+import tokenPool from "./token-pool.ts";
+import errorClassifier from "./error-classifier.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+
+// 可在同一token上重试的网络错误码
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "ERR_HTTP2_STREAM_ERROR",
+  "ERR_HTTP2_SESSION_ERROR",
+  "ERR_HTTP2_GOAWAY_SESSION",
+  "ERR_HTTP2_STREAM_CANCEL",
+];
+
+/**
+ * 重试状态
+ */
+export interface RetryState {
+  /** 已重试次数 */
+  count?: number;
+  /** 可切换的候选token列表 */
+  tokens?: string[];
+  /** 已尝试过的token列表 */
+  tried?: string[];
+}
+
+/**
+ * 判断是否为瞬时网络错误
+ *
+ * @param err 错误对象
+ */
+function isTransientError(err: any) {
+  if (!err) return false;
+  if (TRANSIENT_ERROR_CODES.includes(err.code)) return true;
+  return _.isError(err) && /timeout|socket hang up/i.test(err.message);
+}
+
+/**
+ * 计算指数退避延迟，附带随机抖动
+ *
+ * @param baseDelay 基础延迟（毫秒）
+ * @param retryCount 已重试次数
+ */
+function backoff(baseDelay: number, retryCount: number) {
+  const { retryBackoff, retryMaxDelay } = config.system;
+  const delay = Math.min(
+    baseDelay * Math.pow(retryBackoff, retryCount),
+    retryMaxDelay
+  );
+  return Math.round(delay / 2 + _.random(0, delay / 2));
+}
+
+/**
+ * 判断是否应重试
+ *
+ * 未达到重试次数上限且错误可重试时重试，内容拦截、参数错误等不可重试的错误直接抛出
+ *
+ * @param err 错误对象
+ * @param retry 重试状态
+ */
+function shouldRetry(err: any, retry: RetryState) {
+  return (
+    (retry.count || 0) < config.system.retryCount &&
+    errorClassifier.isRetryable(err)
+  );
+}
+
+/**
+ * 规划下一次重试
+ *
+ * 瞬时网络错误在同一token上重试，其它错误优先切换到未尝试过的候选token
+ *
+ * @param token 本次使用的token
+ * @param err 错误对象
+ * @param retry 重试状态
+ * @param baseDelay 基础延迟（毫秒），默认为配置的重试延迟
+ */
+function plan(
+  token: string,
+  err: any,
+  retry: RetryState,
+  baseDelay = config.system.retryDelay
+) {
+  const retryCount = retry.count || 0;
+  const tried = _.uniq([...(retry.tried || []), token]);
+  let nextToken = token;
+  if (!isTransientError(err)) {
+    const candidates = (retry.tokens || []).filter((v) => !tried.includes(v));
+    if (candidates.length)
+      nextToken = _.attempt(() => tokenPool.select(candidates)) as string;
+    if (_.isError(nextToken)) nextToken = token;
+  }
+  const delay = backoff(baseDelay, retryCount);
+  logger.error(`Stream response error: ${err.stack}`);
+  logger.warn(
+    `Try again after ${delay / 1000}s${nextToken != token ? ` with token ${core.maskToken(nextToken)}` : ""}...`
+  );
+  return {
+    token: nextToken,
+    delay,
+    retry: { ...retry, count: retryCount + 1, tried },
+  };
+}
+
+/**
+ * 在最终错误中附加已尝试的token（脱敏）
+ *
+ * @param err 错误对象
+ * @param token 最后使用的token
+ * @param retry 重试状态
+ */
+function decorateError(err: any, token: string, retry: RetryState) {
+  if (!_.isError(err)) return err;
+  const tried = _.uniq([...(retry.tried || []), token]);
+  const suffix = ` (tried tokens: ${tried.map(core.maskToken).join(", ")})`;
+  err.message += suffix;
+  if (err instanceof Exception) err.errmsg += suffix;
+  return err;
+}
+
+export default {
+  isTransientError,
+  backoff,
+  shouldRetry,
+  plan,
+  decorateError,
+};
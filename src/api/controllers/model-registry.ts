@@ -0,0 +1,211 @@
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import modelMap from "../consts/model-map.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+
+// 默认模型所有者
+const DEFAULT_OWNER = "minimax-free-api";
+// 开启联网搜索的模型名称后缀
+const SEARCH_SUFFIX = "-search";
+
+/**
+ * 模型能力
+ */
+export type ModelCapability = "chat" | "vision" | "search" | "tts" | "asr";
+
+/**
+ * 模型默认选项
+ */
+export interface ModelOptions {
+  /** 是否默认开启联网搜索 */
+  searchMode?: boolean;
+  /** hailuo角色ID */
+  characterId?: string;
+  /** 默认发音人 */
+  voice?: string;
+  /** openai发音人到hailuo发音人的映射 */
+  voices?: Record<string, string>;
+}
+
+/**
+ * 模型定义
+ */
+export interface ModelDefinition {
+  /** 模型ID */
+  id: string;
+  /** 模型别名 */
+  aliases: string[];
+  /** 模型能力 */
+  capabilities: ModelCapability[];
+  /** 模型所有者 */
+  owned_by: string;
+  /** 模型默认选项 */
+  options: ModelOptions;
+}
+
+// 未配置模型时使用的默认模型列表
+const DEFAULT_MODELS = [
+  { id: "abab6-chat", aliases: ["hailuo"], capabilities: ["chat", "vision", "search"] },
+  { id: "abab5.5s-chat", capabilities: ["chat", "vision", "search"] },
+  { id: "abab5.5-chat", capabilities: ["chat", "vision", "search"] },
+  { id: "abab-v1", capabilities: ["chat", "vision", "search"] },
+  { id: "abab-v1-vision", capabilities: ["chat", "vision", "search"] },
+  {
+    id: "tts-1",
+    capabilities: ["tts"],
+    options: { voice: "male-botong", voices: modelMap["tts-1"] },
+  },
+  {
+    id: "tts-1-hd",
+    capabilities: ["tts"],
+    options: { voice: "xiaomo_sft", voices: modelMap["tts-1-hd"] },
+  },
+  { id: "whisper-1", capabilities: ["asr"] },
+];
+
+// 已加载的模型列表
+let models: ModelDefinition[] | null = null;
+
+/**
+ * 规范化模型定义，补全缺省字段
+ *
+ * @param model 配置中的模型定义
+ */
+function normalize(model: any): ModelDefinition {
+  return {
+    id: model.id,
+    aliases: _.castArray(model.aliases || []),
+    capabilities: _.castArray(model.capabilities || ["chat"]),
+    owned_by: model.owned_by || DEFAULT_OWNER,
+    options: {
+      ...(_.isObject(model.options) ? model.options : {}),
+    },
+  };
+}
+
+/**
+ * 获取模型列表
+ *
+ * 首次调用时从配置加载，未配置时使用默认模型列表
+ */
+function list() {
+  if (models) return models;
+  const configured = config.system.models;
+  const source = _.isArray(configured) && configured.length ? configured : DEFAULT_MODELS;
+  models = source
+    .filter((model) => {
+      if (_.isObject(model) && _.isString(model["id"]) && model["id"]) return true;
+      logger.warn(`Model definition invalid: ${JSON.stringify(model)}`);
+      return false;
+    })
+    .map(normalize);
+  return models;
+}
+
+/**
+ * 按模型ID或别名查找模型
+ *
+ * @param name 模型名称
+ */
+function find(name: string) {
+  if (!_.isString(name) || !name) return null;
+  return (
+    list().find((model) => model.id == name || model.aliases.includes(name)) ||
+    null
+  );
+}
+
+/**
+ * 判断模型是否具备能力
+ *
+ * @param model 模型定义
+ * @param capability 模型能力
+ */
+function hasCapability(model: ModelDefinition, capability: ModelCapability) {
+  return model.capabilities.includes(capability);
+}
+
+/**
+ * 解析请求的模型
+ *
+ * 未指定模型时使用首个具备该能力的模型，未知模型按配置映射到默认模型或抛出异常，已知模型不具备该能力时抛出异常
+ *
+ * 未定义的带-search后缀的模型名称解析为去除后缀的模型并默认开启联网搜索
+ *
+ * @param name 请求的模型名称
+ * @param capability 需要的模型能力
+ */
+function resolve(name: string, capability: ModelCapability): ModelDefinition {
+  const model = find(name);
+  if (!model && _.isString(name) && name.endsWith(SEARCH_SUFFIX)) {
+    const base = find(name.slice(0, -SEARCH_SUFFIX.length));
+    if (base) {
+      if (!hasCapability(base, "search"))
+        throw new APIException(
+          EX.API_MODEL_NOT_SUPPORTED,
+          `Model ${name} does not support search`
+        ).setHTTPStatusCode(400);
+      const definition = resolve(base.id, capability);
+      return {
+        ...definition,
+        options: { ...definition.options, searchMode: true },
+      };
+    }
+  }
+  if (model) {
+    if (!hasCapability(model, capability))
+      throw new APIException(
+        EX.API_MODEL_NOT_SUPPORTED,
+        `Model ${name} does not support ${capability}`
+      ).setHTTPStatusCode(400);
+    return model;
+  }
+  if (name && config.system.unknownModel == "error")
+    throw new APIException(
+      EX.API_MODEL_NOT_SUPPORTED,
+      `Model ${name} does not exist`
+    ).setHTTPStatusCode(404);
+  const fallback = list().find((model) => hasCapability(model, capability));
+  if (!fallback)
+    throw new APIException(
+      EX.API_MODEL_NOT_SUPPORTED,
+      `No model supports ${capability}`
+    ).setHTTPStatusCode(404);
+  return fallback;
+}
+
+/**
+ * 获取模型的默认选项，未知模型返回空对象
+ *
+ * @param name 模型名称
+ */
+function getOptions(name: string): ModelOptions {
+  const model = find(name);
+  return model ? model.options : {};
+}
+
+/**
+ * 转换模型定义为openai模型对象
+ *
+ * @param model 模型定义
+ */
+function toObject(model: ModelDefinition) {
+  return {
+    id: model.id,
+    object: "model",
+    owned_by: model.owned_by,
+    capabilities: model.capabilities,
+  };
+}
+
+export default {
+  list,
+  find,
+  hasCapability,
+  resolve,
+  getOptions,
+  toObject,
+};
@@ -0,0 +1,293 @@
+import { PassThrough } from "stream";
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import completions from "./completions.ts";
+import openaiError from "./openai-error.ts";
+import util from "@/lib/util.ts";
+
+// BASE64图像数据开头到MIME类型的映射
+const IMAGE_SIGNATURES = {
+  iVBORw0KGgo: "image/png",
+  "/9j/": "image/jpeg",
+  R0lGOD: "image/gif",
+  UklGR: "image/webp",
+  Qk: "image/bmp",
+};
+
+/**
+ * 转换BASE64图像数组为gpt系列图像内容
+ *
+ * Ollama的图像为不带头部的BASE64数据，此处根据数据开头识别类型后转换为data URL以便交由上传流程处理
+ *
+ * @param images BASE64图像数组
+ */
+function convertImages(images: string[] = []) {
+  return images
+    .filter((image) => _.isString(image) && image.length)
+    .map((image) => {
+      const url = util.isBASE64Data(image)
+        ? image
+        : `data:${
+          _.find(IMAGE_SIGNATURES, (_type, signature) =>
+            image.startsWith(signature)
+          ) || "image/png"
+        };base64,${image}`;
+      return { type: "image_url", image_url: { url } };
+    });
+}
+
+/**
+ * 转换Ollama消息为gpt系列消息格式
+ *
+ * @param messages Ollama消息列表
+ */
+function convertMessages(messages: any[]) {
+  return messages.map(({ role, content, images }) => {
+    if (!_.isArray(images) || !images.length) return { role, content };
+    return {
+      role,
+      content: [{ type: "text", text: content || "" }, ...convertImages(images)],
+    };
+  });
+}
+
+/**
+ * 转换Ollama生成请求为gpt系列消息格式
+ *
+ * @param prompt 提示词
+ * @param system 系统提示词
+ * @param images BASE64图像数组
+ * @param suffix 后缀，提供时补全提示词与后缀之间的内容
+ */
+function convertPrompt(
+  prompt: string,
+  system?: string,
+  images?: string[],
+  suffix?: string
+) {
+  const messages = [];
+  if (system) messages.push({ role: "system", content: system });
+  const [{ content }] = completions.buildMessages(prompt, suffix);
+  messages.push(...convertMessages([{ role: "user", content, images }]));
+  return messages;
+}
+
+/**
+ * 转换Ollama请求参数为补全选项
+ *
+ * @param body 请求数据
+ */
+function convertOptions(body: any) {
+  const { options, format } = body;
+  const { stop, num_predict } = options || {};
+  let responseFormat;
+  if (format == "json") responseFormat = { type: "json_object" };
+  else if (_.isObject(format))
+    responseFormat = {
+      type: "json_schema",
+      json_schema: { name: "response", schema: format },
+    };
+  return {
+    limits: { stop, maxTokens: num_predict > 0 ? num_predict : undefined },
+    responseFormat,
+    includeUsage: true,
+  };
+}
+
+/**
+ * 创建结束统计信息，耗时单位为纳秒
+ *
+ * @param startTime 开始时间戳（毫秒）
+ * @param usage 用量
+ * @param finishReason 结束原因
+ */
+function createDoneStats(startTime: number, usage: any, finishReason: string) {
+  const duration = (util.timestamp() - startTime) * 1e6;
+  return {
+    done: true,
+    done_reason: finishReason == "length" ? "length" : "stop",
+    total_duration: duration,
+    load_duration: 0,
+    prompt_eval_count: usage ? usage.prompt_tokens : 0,
+    prompt_eval_duration: 0,
+    eval_count: usage ? usage.completion_tokens : 0,
+    eval_duration: duration,
+  };
+}
+
+/**
+ * 转换补全结果为Ollama响应
+ *
+ * @param model 模型名称
+ * @param answer 补全结果
+ * @param startTime 开始时间戳（毫秒）
+ * @param generate 是否为生成接口
+ */
+function convertAnswer(
+  model: string,
+  answer: any,
+  startTime: number,
+  generate = false
+) {
+  const { message, finish_reason } = answer.choices[0];
+  const content = message.content || "";
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    ...(generate
+      ? { response: content }
+      : { message: { role: "assistant", content } }),
+    ...createDoneStats(startTime, answer.usage, finish_reason),
+  };
+}
+
+/**
+ * 将gpt兼容流转换为Ollama的换行分隔JSON流
+ *
+ * gpt兼容流需开启用量输出，用于在结束时返回统计信息
+ *
+ * @param model 模型名称
+ * @param stream gpt兼容流
+ * @param startTime 开始时间戳（毫秒）
+ * @param generate 是否为生成接口
+ */
+function createNDJSONStream(
+  model: string,
+  stream: any,
+  startTime: number,
+  generate = false
+) {
+  const transStream = new PassThrough();
+  const writeLine = (content: string, data: any = { done: false }) =>
+    !transStream.writableEnded &&
+    transStream.write(
+      JSON.stringify({
+        model,
+        created_at: new Date().toISOString(),
+        ...(generate
+          ? { response: content }
+          : { message: { role: "assistant", content } }),
+        ...data,
+      }) + "\n"
+    );
+  let usage = null;
+  let finishReason = "stop";
+  util.readChunks(stream, (chunk) => {
+    if (chunk.error)
+      return transStream.end(
+        JSON.stringify({ error: chunk.error.message }) + "\n"
+      );
+    if (chunk.usage) usage = chunk.usage;
+    const choice = chunk.choices[0];
+    if (!choice) return;
+    if (choice.delta && choice.delta.content) writeLine(choice.delta.content);
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  });
+  stream.once("error", (err) => {
+    !transStream.writableEnded &&
+      transStream.end(JSON.stringify({ error: err.message }) + "\n");
+  });
+  stream.once("close", () => {
+    if (transStream.writableEnded) return;
+    writeLine("", createDoneStats(startTime, usage, finishReason));
+    transStream.end();
+  });
+  return transStream;
+}
+
+/**
+ * 转换模型列表为Ollama模型标签列表
+ *
+ * @param models gpt兼容模型列表
+ */
+function convertModels(models: any[]) {
+  return {
+    models: models.map(({ id }) => ({
+      name: id,
+      model: id,
+      modified_at: new Date(0).toISOString(),
+      size: 0,
+      digest: util.md5(id),
+      details: createModelDetails(),
+    })),
+  };
+}
+
+/**
+ * 创建模型详情
+ */
+function createModelDetails() {
+  return {
+    parent_model: "",
+    format: "api",
+    family: "minimax",
+    families: ["minimax"],
+    parameter_size: "",
+    quantization_level: "",
+  };
+}
+
+/**
+ * 规范化Ollama模型名称，移除默认的:latest标签
+ *
+ * @param name 模型名称
+ */
+function normalizeModelName(name: string) {
+  return _.isString(name) ? name.replace(/:latest$/, "") : name;
+}
+
+/**
+ * 获取Ollama模型信息
+ *
+ * 模型能力按模型列表中的定义转换为Ollama能力
+ *
+ * @param models gpt兼容模型列表
+ * @param name 模型名称
+ */
+function showModel(models: any[], name: string) {
+  const model = models.find(({ id }) => id == name);
+  if (!model)
+    throw new APIException(
+      EX.API_REQUEST_PARAMS_INVALID,
+      `model '${name}' not found`
+    ).setHTTPStatusCode(404);
+  const capabilities = model.capabilities || [];
+  return {
+    modelfile: `FROM ${name}`,
+    parameters: "",
+    template: "{{ .Prompt }}",
+    details: createModelDetails(),
+    model_info: {},
+    capabilities: [
+      capabilities.includes("chat") && "completion",
+      capabilities.includes("vision") && "vision",
+    ].filter(Boolean),
+  };
+}
+
+/**
+ * 转换异常为Ollama错误格式
+ *
+ * @param err 错误对象
+ */
+function convertError(err: any) {
+  const statusCode = openaiError.getStatusCode(err);
+  return {
+    statusCode,
+    body: { error: err && err.message ? err.message : `${err}` },
+  };
+}
+
+export default {
+  convertMessages,
+  convertPrompt,
+  convertOptions,
+  convertAnswer,
+  createNDJSONStream,
+  convertModels,
+  normalizeModelName,
+  showModel,
+  convertError,
+};
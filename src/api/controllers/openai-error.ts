@@ -0,0 +1,138 @@
+import Exception from "@/lib/exceptions/Exception.ts";
+import Response from "@/lib/response/Response.ts";
+import EX from "@/api/consts/exceptions.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+
+// 异常到HTTP状态码、错误类型和错误码的映射
+const ERROR_MAP: [(string | number)[], number, string, string][] = [
+  [EX.API_REQUEST_PARAMS_INVALID, 400, "invalid_request_error", "invalid_request"],
+  [EX.API_FILE_URL_INVALID, 400, "invalid_request_error", "invalid_file_url"],
+  [EX.API_FILE_EXECEEDS_SIZE, 413, "invalid_request_error", "file_too_large"],
+  [EX.API_CONTENT_FILTERED, 400, "invalid_request_error", "content_filter"],
+  [EX.API_KEY_INVALID, 401, "authentication_error", "invalid_api_key"],
+  // 失效的是服务端使用的hailuo token而非调用方的API Key，按上游错误返回
+  [EX.API_TOKEN_EXPIRES, 503, "upstream_error", "upstream_token_expired"],
+  [EX.API_CHAT_STREAM_PUSHING, 429, "rate_limit_error", "rate_limit_exceeded"],
+  [EX.API_CONVERSATION_OWNER_UNAVAILABLE, 409, "invalid_request_error", "conversation_unavailable"],
+  [EX.API_RESPONSE_FORMAT_INVALID, 422, "invalid_request_error", "response_format_invalid"],
+  [EX.API_MODEL_NOT_SUPPORTED, 404, "invalid_request_error", "model_not_found"],
+  [EX.API_REQUEST_CANCELED, 499, "invalid_request_error", "request_canceled"],
+  [EX.API_REQUEST_FAILED, 502, "upstream_error", "upstream_error"],
+];
+// HTTP状态码到错误类型的映射，用于未在上表中或指定了状态码的异常
+const STATUS_TYPE_MAP = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  429: "rate_limit_error",
+};
+
+/**
+ * 查找异常对应的映射项
+ *
+ * @param err 错误对象
+ */
+function findEntry(err: any) {
+  if (!(err instanceof Exception)) return null;
+  return ERROR_MAP.find(([exception]) => err.compare(exception)) || null;
+}
+
+/**
+ * 获取错误对应的HTTP状态码
+ *
+ * 异常已指定状态码时优先使用
+ *
+ * @param err 错误对象
+ */
+function getStatusCode(err: any) {
+  if (err instanceof Exception && err.httpStatusCode) return err.httpStatusCode;
+  const entry = findEntry(err);
+  return entry ? entry[1] : 500;
+}
+
+/**
+ * 判断是否为内容被拦截的错误
+ *
+ * @param err 错误对象
+ */
+function isContentFiltered(err: any) {
+  return err instanceof Exception && err.compare(EX.API_CONTENT_FILTERED);
+}
+
+/**
+ * 是否使用旧版{code, message, data}错误格式
+ */
+function isLegacy() {
+  return config.system.errorFormat == "legacy";
+}
+
+/**
+ * 从参数校验错误中提取参数名称
+ *
+ * @param err 错误对象
+ */
+function extractParam(err: any) {
+  const match = /^Params (?:body|headers)\.(\S+) invalid/.exec(
+    (err && err.message) || ""
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * 转换异常为OpenAI错误格式
+ *
+ * @param err 错误对象
+ */
+function convertError(err: any) {
+  const statusCode = getStatusCode(err);
+  const entry = findEntry(err);
+  // 异常指定了状态码时错误类型以状态码为准
+  let type = entry ? entry[2] : null;
+  if (!type || (err && err.httpStatusCode && STATUS_TYPE_MAP[statusCode]))
+    type = STATUS_TYPE_MAP[statusCode] || "server_error";
+  return {
+    statusCode,
+    body: {
+      error: {
+        message: err && err.message ? err.message : `${err}`,
+        type,
+        code: entry ? entry[3] : null,
+        param: extractParam(err),
+      },
+    },
+  };
+}
+
+/**
+ * 创建SSE错误数据块
+ *
+ * @param err 错误对象
+ */
+function createErrorChunk(err: any) {
+  return `data: ${JSON.stringify(convertError(err).body)}\n\n`;
+}
+
+/**
+ * 创建OpenAI错误响应
+ *
+ * 配置为旧版错误格式时原样抛出，由服务统一处理
+ *
+ * @param err 错误对象
+ */
+function createErrorResponse(err: any) {
+  if (isLegacy()) throw err;
+  logger.error(err);
+  const { statusCode, body } = convertError(err);
+  return new Response(body, { statusCode });
+}
+
+export default {
+  getStatusCode,
+  isContentFiltered,
+  isLegacy,
+  convertError,
+  createErrorChunk,
+  createErrorResponse,
+};
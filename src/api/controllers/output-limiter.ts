@@ -0,0 +1,134 @@
+import _ from "lodash";
+
+import tokenizer from "./tokenizer.ts";
+
+/**
+ * 输出限制
+ */
+export interface OutputLimits {
+  /** 停止序列 */
+  stop?: string | string[];
+  /** 最大生成token数 */
+  maxTokens?: number;
+}
+
+/**
+ * 创建输出限制器
+ *
+ * 推入的文本块会按停止序列截断，可能是停止序列开头的尾部文本会暂时保留，超过最大token数时截断并结束
+ *
+ * @param model 模型名称
+ * @param limits 输出限制
+ */
+function create(model: string, limits: OutputLimits = {}) {
+  const stops = _.castArray(limits.stop || []).filter(
+    (stop) => _.isString(stop) && stop.length > 0
+  );
+  const maxTokens = limits.maxTokens > 0 ? limits.maxTokens : 0;
+  // 已输出文本的token数，逐块累加避免重复计算全部输出
+  let outputTokens = 0;
+  let buffer = "";
+  let finishReason: string | null = null;
+  let stopSequence: string | null = null;
+
+  /**
+   * 按最大token数截断文本
+   *
+   * @param text 待输出文本
+   */
+  const applyMaxTokens = (text: string) => {
+    if (!maxTokens) return text;
+    const textTokens = tokenizer.count(model, text);
+    if (outputTokens + textTokens < maxTokens) {
+      outputTokens += textTokens;
+      return text;
+    }
+    finishReason = "length";
+    // 二分查找不超过剩余token数的最长前缀
+    const remaining = maxTokens - outputTokens;
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (tokenizer.count(model, text.substring(0, mid)) <= remaining)
+        low = mid;
+      else high = mid - 1;
+    }
+    outputTokens = maxTokens;
+    return text.substring(0, low);
+  };
+
+  return {
+    /**
+     * 推入文本块
+     *
+     * @param chunk 文本块
+     * @returns 可输出的文本
+     */
+    push(chunk: string) {
+      if (finishReason) return "";
+      buffer += chunk;
+      let text: string;
+      let stopped = false;
+      // 最先出现的停止序列
+      const matched = _.minBy(
+        stops
+          .map((stop) => ({ stop, index: buffer.indexOf(stop) }))
+          .filter(({ index }) => index != -1),
+        "index"
+      );
+      if (matched) {
+        text = buffer.substring(0, matched.index);
+        buffer = "";
+        stopped = true;
+      } else {
+        // 保留可能是停止序列开头的尾部
+        const holdLength = _.max(
+          stops.map((stop) => {
+            for (let i = Math.min(stop.length - 1, buffer.length); i > 0; i--)
+              if (buffer.endsWith(stop.substring(0, i))) return i;
+            return 0;
+          })
+        ) || 0;
+        text = buffer.substring(0, buffer.length - holdLength);
+        buffer = buffer.substring(buffer.length - holdLength);
+      }
+      const limited = applyMaxTokens(text);
+      // 停止序列之前的文本被最大token数截断时以截断为准
+      const truncated = limited.length < text.length;
+      text = limited;
+      if (stopped && !truncated) {
+        finishReason = "stop";
+        stopSequence = matched.stop;
+      }
+      return text;
+    },
+    /**
+     * 结束输出
+     *
+     * @returns 保留的剩余文本
+     */
+    finish() {
+      if (finishReason) return "";
+      const text = applyMaxTokens(buffer);
+      buffer = "";
+      return text;
+    },
+    /**
+     * 获取触发限制的结束原因，未触发时返回null
+     */
+    getFinishReason() {
+      return finishReason;
+    },
+    /**
+     * 获取匹配到的停止序列，未匹配时返回null
+     */
+    getStopSequence() {
+      return stopSequence;
+    },
+  };
+}
+
+export default {
+  create,
+};
@@ -0,0 +1,197 @@
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+
+/**
+ * 判断是否要求结构化输出
+ *
+ * @param format 输出格式，参考OpenAI response_format格式
+ */
+function isEnabled(format?: any) {
+  return (
+    _.isObject(format) &&
+    ["json_object", "json_schema"].includes(format["type"])
+  );
+}
+
+/**
+ * 获取输出格式中的JSON Schema
+ *
+ * @param format 输出格式
+ */
+function getSchema(format: any) {
+  if (format.type != "json_schema") return null;
+  return _.get(format, "json_schema.schema") || null;
+}
+
+/**
+ * 渲染输出格式说明
+ *
+ * @param format 输出格式
+ */
+function renderPrompt(format: any) {
+  const schema = getSchema(format);
+  if (!schema)
+    return "请只输出一个合法的JSON对象，不要使用markdown代码块，也不要输出其它解释。";
+  return (
+    `请只输出符合以下JSON Schema的JSON，不要使用markdown代码块，也不要输出其它解释：\n` +
+    JSON.stringify(schema)
+  );
+}
+
+/**
+ * 移除包裹输出内容的markdown代码块标记
+ *
+ * @param content 输出内容
+ */
+function stripFences(content: string) {
+  const match = content.match(/^\s*```[a-zA-Z]*\s*\n?([\s\S]*?)\n?\s*```\s*$/);
+  return match ? match[1].trim() : content.trim();
+}
+
+/**
+ * 获取值的JSON类型
+ *
+ * @param value 值
+ */
+function typeOf(value: any) {
+  if (value === null) return "null";
+  if (_.isArray(value)) return "array";
+  if (_.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * 按JSON Schema校验值
+ *
+ * 支持常用的type、enum、const、properties、required、additionalProperties、items、长度和范围以及anyOf/oneOf/allOf约束
+ *
+ * @param value 值
+ * @param schema JSON Schema
+ * @param path 当前路径
+ * @returns 错误列表
+ */
+function validateSchema(value: any, schema: any, path = "$"): string[] {
+  if (!_.isObject(schema)) return [];
+  const errors: string[] = [];
+  const type = typeOf(value);
+  if (schema["type"]) {
+    const types = _.castArray(schema["type"]);
+    const matched = types.some(
+      (t) => t == type || (t == "number" && type == "integer")
+    );
+    if (!matched) return [`${path} should be ${types.join("|")}, got ${type}`];
+  }
+  if (
+    _.isArray(schema["enum"]) &&
+    !schema["enum"].some((item) => _.isEqual(item, value))
+  )
+    errors.push(`${path} should be one of ${JSON.stringify(schema["enum"])}`);
+  if (!_.isUndefined(schema["const"]) && !_.isEqual(schema["const"], value))
+    errors.push(`${path} should be ${JSON.stringify(schema["const"])}`);
+  if (type == "string") {
+    if (_.isFinite(schema["minLength"]) && value.length < schema["minLength"])
+      errors.push(`${path} should be at least ${schema["minLength"]} characters`);
+    if (_.isFinite(schema["maxLength"]) && value.length > schema["maxLength"])
+      errors.push(`${path} should be at most ${schema["maxLength"]} characters`);
+  }
+  if (type == "number" || type == "integer") {
+    if (_.isFinite(schema["minimum"]) && value < schema["minimum"])
+      errors.push(`${path} should be >= ${schema["minimum"]}`);
+    if (_.isFinite(schema["maximum"]) && value > schema["maximum"])
+      errors.push(`${path} should be <= ${schema["maximum"]}`);
+  }
+  if (type == "object") {
+    const properties = schema["properties"] || {};
+    (schema["required"] || []).forEach(
+      (key) =>
+        !_.has(value, key) && errors.push(`${path}.${key} is required`)
+    );
+    Object.keys(value).forEach((key) => {
+      if (properties[key])
+        errors.push(...validateSchema(value[key], properties[key], `${path}.${key}`));
+      else if (schema["additionalProperties"] === false)
+        errors.push(`${path}.${key} is not allowed`);
+      else if (_.isObject(schema["additionalProperties"]))
+        errors.push(
+          ...validateSchema(value[key], schema["additionalProperties"], `${path}.${key}`)
+        );
+    });
+  }
+  if (type == "array") {
+    if (_.isFinite(schema["minItems"]) && value.length < schema["minItems"])
+      errors.push(`${path} should have at least ${schema["minItems"]} items`);
+    if (_.isFinite(schema["maxItems"]) && value.length > schema["maxItems"])
+      errors.push(`${path} should have at most ${schema["maxItems"]} items`);
+    if (_.isObject(schema["items"]))
+      value.forEach((item, index) =>
+        errors.push(...validateSchema(item, schema["items"], `${path}[${index}]`))
+      );
+  }
+  if (_.isArray(schema["allOf"]))
+    schema["allOf"].forEach((sub) =>
+      errors.push(...validateSchema(value, sub, path))
+    );
+  const alternatives = schema["anyOf"] || schema["oneOf"];
+  if (
+    _.isArray(alternatives) &&
+    !alternatives.some((sub) => !validateSchema(value, sub, path).length)
+  )
+    errors.push(`${path} does not match any of the allowed schemas`);
+  return errors;
+}
+
+/**
+ * 校验输出内容是否符合输出格式
+ *
+ * @param content 输出内容
+ * @param format 输出格式
+ * @returns 解析后的JSON
+ */
+function validate(content: string, format: any) {
+  const result = _.attempt(() => JSON.parse(content));
+  if (_.isError(result))
+    throw new APIException(
+      EX.API_RESPONSE_FORMAT_INVALID,
+      `Output is not valid JSON: ${result.message}`
+    );
+  const schema = getSchema(format);
+  const errors = schema
+    ? validateSchema(result, schema)
+    : _.isPlainObject(result)
+      ? []
+      : ["$ should be object"];
+  if (errors.length)
+    throw new APIException(
+      EX.API_RESPONSE_FORMAT_INVALID,
+      `Output does not match the required format: ${errors.join("; ")}`
+    );
+  return result;
+}
+
+/**
+ * 构建要求模型重新输出的消息列表
+ *
+ * @param messages 原始消息列表
+ * @param output 不符合格式的输出内容
+ * @param err 校验错误
+ */
+function buildCorrectionMessages(messages: any[], output: string, err: any) {
+  return [
+    ...messages,
+    { role: "assistant", content: output },
+    {
+      role: "user",
+      content: `你的输出不符合要求：${err.message}。请修正后重新输出完整的JSON，不要输出其它内容。`,
+    },
+  ];
+}
+
+export default {
+  isEnabled,
+  renderPrompt,
+  stripFences,
+  validate,
+  buildCorrectionMessages,
+};
@@ -0,0 +1,343 @@
+import crypto from "crypto";
+import { PassThrough } from "stream";
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import util from "@/lib/util.ts";
+
+// 最大存储响应数
+const MAX_ENTRIES = 1000;
+// 响应存储有效期（毫秒）
+const ENTRY_EXPIRES = 86400000;
+
+/**
+ * 响应上下文
+ */
+export interface ResponseContext {
+  /** 响应ID */
+  id: string;
+  /** 响应所有者，为token分组的摘要 */
+  owner: string;
+  /** 模型名称 */
+  model: string;
+  /** 创建时间（秒） */
+  createdAt: number;
+  /** 指令 */
+  instructions: string | null;
+  /** 上一个响应ID */
+  previousResponseId: string | null;
+  /** 是否存储响应以便后续引用 */
+  store: boolean;
+  /** 不含指令的对话历史，包括本次输入 */
+  history: any[];
+  /** 发送给对话补全的消息列表 */
+  messages: any[];
+}
+
+// 响应ID到所有者及对话历史的映射
+const historyCache = util.createLRUCache<{ owner: string; messages: any[] }>(
+  MAX_ENTRIES,
+  ENTRY_EXPIRES
+);
+
+/**
+ * 转换输入内容为gpt系列消息内容格式
+ *
+ * @param content 输入内容，可以是文本或内容列表
+ */
+function convertContent(content: any) {
+  if (!_.isArray(content)) return content;
+  return content
+    .map((part) => {
+      if (!_.isObject(part)) return null;
+      const type = part["type"];
+      if (type == "input_text" || type == "output_text")
+        return { type: "text", text: part["text"] };
+      // 图像和文件交由上传流程处理
+      if (type == "input_image" && _.isString(part["image_url"]))
+        return { type: "image_url", image_url: { url: part["image_url"] } };
+      if (type == "input_file" && (part["file_data"] || part["file_url"]))
+        return {
+          type: "file",
+          file_url: { url: part["file_data"] || part["file_url"] },
+        };
+      return null;
+    })
+    .filter((part) => part);
+}
+
+/**
+ * 转换输入为gpt系列消息格式
+ *
+ * @param input 输入，可以是文本或输入项列表
+ */
+function convertInput(input: any) {
+  if (_.isString(input)) return [{ role: "user", content: input }];
+  return input
+    .filter(
+      (item) =>
+        _.isObject(item) &&
+        (!item["type"] || item["type"] == "message") &&
+        item["role"]
+    )
+    .map((item) => ({
+      role: item["role"] == "developer" ? "system" : item["role"],
+      content: convertContent(item["content"]),
+    }));
+}
+
+/**
+ * 获取已存储的对话历史
+ *
+ * 只能获取同一token分组存储的历史，其它分组的响应视为不存在
+ *
+ * @param responseId 响应ID
+ * @param owner 响应所有者
+ */
+function getHistory(responseId: string, owner: string) {
+  const entry = historyCache.get(responseId);
+  if (!entry || entry.owner !== owner) return null;
+  return entry.messages;
+}
+
+/**
+ * 存储对话历史
+ *
+ * @param context 响应上下文
+ * @param text 输出文本
+ */
+function saveHistory(context: ResponseContext, text: string) {
+  if (!context.store) return;
+  historyCache.set(context.id, {
+    owner: context.owner,
+    messages: [...context.history, { role: "assistant", content: text }],
+  });
+}
+
+/**
+ * 创建响应上下文
+ *
+ * 引用上一个响应时将其对话历史与本次输入合并，指令只作用于本次响应
+ *
+ * @param body 请求数据
+ * @param tokens 请求解析出的token分组
+ */
+function createContext(body: any, tokens: string[]): ResponseContext {
+  const { model, input, instructions, previous_response_id, store } = body;
+  const owner = util.md5([...tokens].sort().join(","));
+  let history = [];
+  if (previous_response_id) {
+    history = getHistory(previous_response_id, owner);
+    if (!history)
+      throw new APIException(
+        EX.API_REQUEST_PARAMS_INVALID,
+        `Previous response ${previous_response_id} not found`
+      ).setHTTPStatusCode(404);
+  }
+  history = [...history, ...convertInput(input)];
+  return {
+    // 使用随机ID，避免响应ID被推测
+    id: `resp_${crypto.randomUUID().replace(/-/g, "")}`,
+    owner,
+    model: model || "hailuo",
+    createdAt: util.unixTimestamp(),
+    instructions: instructions || null,
+    previousResponseId: previous_response_id || null,
+    store: store !== false,
+    history,
+    messages: _.cloneDeep(
+      instructions
+        ? [{ role: "system", content: instructions }, ...history]
+        : history
+    ),
+  };
+}
+
+/**
+ * 创建响应对象
+ *
+ * @param context 响应上下文
+ * @param status 响应状态
+ * @param output 输出项列表
+ * @param usage 用量
+ * @param finishReason 结束原因
+ */
+function createResponseObject(
+  context: ResponseContext,
+  status: string,
+  output: any[] = [],
+  usage: any = null,
+  finishReason?: string
+) {
+  const incomplete =
+    finishReason == "length" || finishReason == "content_filter";
+  return {
+    id: context.id,
+    object: "response",
+    created_at: context.createdAt,
+    status: status == "completed" && incomplete ? "incomplete" : status,
+    model: context.model,
+    instructions: context.instructions,
+    previous_response_id: context.previousResponseId,
+    store: context.store,
+    output,
+    incomplete_details: incomplete
+      ? {
+        reason:
+          finishReason == "length" ? "max_output_tokens" : "content_filter",
+      }
+      : null,
+    error: null,
+    usage: usage
+      ? {
+        input_tokens: usage.prompt_tokens,
+        output_tokens: usage.completion_tokens,
+        total_tokens: usage.total_tokens,
+      }
+      : null,
+  };
+}
+
+/**
+ * 创建输出消息项
+ *
+ * @param itemId 输出项ID
+ * @param status 输出项状态
+ * @param text 输出文本
+ */
+function createMessageItem(itemId: string, status: string, text?: string) {
+  return {
+    type: "message",
+    id: itemId,
+    status,
+    role: "assistant",
+    content: _.isUndefined(text)
+      ? []
+      : [{ type: "output_text", text, annotations: [] }],
+  };
+}
+
+/**
+ * 转换补全结果为响应对象
+ *
+ * @param answer 补全结果
+ * @param context 响应上下文
+ */
+function convertAnswer(answer: any, context: ResponseContext) {
+  const { message, finish_reason } = answer.choices[0];
+  const text = message.content || "";
+  saveHistory(context, text);
+  return createResponseObject(
+    context,
+    "completed",
+    [createMessageItem(`msg_${answer.id}`, "completed", text)],
+    answer.usage,
+    finish_reason
+  );
+}
+
+/**
+ * 将gpt兼容流转换为响应事件流
+ *
+ * gpt兼容流需开启用量输出，用于在response.completed事件中返回用量
+ *
+ * @param stream gpt兼容流
+ * @param context 响应上下文
+ */
+function createResponseStream(stream: any, context: ResponseContext) {
+  const transStream = new PassThrough();
+  const itemId = `msg_${util.uuid(false)}`;
+  let sequenceNumber = 0;
+  const writeEvent = (type: string, data: any = {}) =>
+    !transStream.writableEnded &&
+    transStream.write(
+      `event: ${type}\ndata: ${JSON.stringify({
+        type,
+        sequence_number: sequenceNumber++,
+        ...data,
+      })}\n\n`
+    );
+  let text = "";
+  let usage = null;
+  let finishReason = "stop";
+  const position = { item_id: itemId, output_index: 0, content_index: 0 };
+  writeEvent("response.created", {
+    response: createResponseObject(context, "in_progress"),
+  });
+  writeEvent("response.in_progress", {
+    response: createResponseObject(context, "in_progress"),
+  });
+  writeEvent("response.output_item.added", {
+    output_index: 0,
+    item: createMessageItem(itemId, "in_progress"),
+  });
+  writeEvent("response.content_part.added", {
+    ...position,
+    part: { type: "output_text", text: "", annotations: [] },
+  });
+  util.readChunks(stream, (chunk) => {
+    if (chunk.error) {
+      writeEvent("response.failed", {
+        response: {
+          ...createResponseObject(context, "failed"),
+          error: {
+            code: chunk.error.code || "server_error",
+            message: chunk.error.message,
+          },
+        },
+      });
+      return transStream.end();
+    }
+    if (chunk.usage) usage = chunk.usage;
+    const choice = chunk.choices[0];
+    if (!choice) return;
+    if (choice.delta && choice.delta.content) {
+      text += choice.delta.content;
+      writeEvent("response.output_text.delta", {
+        ...position,
+        delta: choice.delta.content,
+      });
+    }
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  });
+  stream.once("error", (err) => {
+    writeEvent("response.failed", {
+      response: {
+        ...createResponseObject(context, "failed"),
+        error: { code: "server_error", message: err.message },
+      },
+    });
+    !transStream.writableEnded && transStream.end();
+  });
+  stream.once("close", () => {
+    if (transStream.writableEnded) return;
+    const part = { type: "output_text", text, annotations: [] };
+    const item = createMessageItem(itemId, "completed", text);
+    writeEvent("response.output_text.done", { ...position, text });
+    writeEvent("response.content_part.done", { ...position, part });
+    writeEvent("response.output_item.done", { output_index: 0, item });
+    saveHistory(context, text);
+    const response = createResponseObject(
+      context,
+      "completed",
+      [item],
+      usage,
+      finishReason
+    );
+    writeEvent(
+      response.status == "incomplete"
+        ? "response.incomplete"
+        : "response.completed",
+      { response }
+    );
+    transStream.end();
+  });
+  return transStream;
+}
+
+export default {
+  createContext,
+  convertAnswer,
+  createResponseStream,
+};
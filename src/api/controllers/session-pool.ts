@@ -0,0 +1,274 @@
+import http2, {
+  ClientHttp2Session,
+  ClientHttp2Stream,
+  OutgoingHttpHeaders,
+  SecureClientSessionOptions,
+} from "http2";
+import _ from "lodash";
+
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+/**
+ * 会话池选项
+ */
+export interface SessionPoolOptions {
+  /** 连接目标，如https://hailuoai.com */
+  authority: string;
+  /** 建立连接的选项，如测试时忽略证书校验 */
+  connectOptions?: SecureClientSessionOptions;
+  /** 单个会话最大并发流数，服务端通告的上限更小时以服务端为准 */
+  maxStreams?: number;
+  /** 保活ping间隔（毫秒），为0则不发送 */
+  pingInterval?: number;
+  /** 空闲会话回收时间（毫秒） */
+  idleTimeout?: number;
+}
+
+/**
+ * 会话租约
+ *
+ * 关闭租约只结束对应的流并归还并发位，底层会话保留在池中复用
+ */
+export interface SessionLease {
+  /** 底层会话 */
+  session: ClientHttp2Session;
+  /** 结束流并归还并发位，可重复调用 */
+  close: () => void;
+}
+
+/**
+ * 会话池统计
+ */
+export interface SessionPoolStats {
+  /** 当前会话数 */
+  sessions: number;
+  /** 进行中的流数 */
+  activeStreams: number;
+  /** 累计建立的会话数 */
+  created: number;
+  /** 累计复用会话的请求数 */
+  reused: number;
+  /** 累计关闭的会话数 */
+  closed: number;
+  /** 累计收到GOAWAY的会话数 */
+  goaways: number;
+  /** 累计出错的会话数 */
+  errors: number;
+}
+
+/**
+ * 池化会话
+ */
+interface PooledSession {
+  /** 会话，连接建立前为null */
+  session: ClientHttp2Session | null;
+  /** 连接建立中的Promise */
+  ready: Promise<ClientHttp2Session>;
+  /** 进行中的流数，包括等待连接建立的请求 */
+  active: number;
+  /** 最近使用时间戳 */
+  lastUsedTime: number;
+  /** 是否不再接受新的流 */
+  draining: boolean;
+  /** 保活及空闲检查定时器 */
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * 创建HTTP/2会话池
+ *
+ * 请求优先复用未满的会话，会话收到GOAWAY或出错后移出池，后续请求自动建立新连接
+ *
+ * @param options 会话池选项
+ */
+function create(options: SessionPoolOptions) {
+  const {
+    authority,
+    connectOptions = {},
+    maxStreams = 100,
+    pingInterval = 30000,
+    idleTimeout = 60000,
+  } = options;
+  const pool: PooledSession[] = [];
+  const metrics = { created: 0, reused: 0, closed: 0, goaways: 0, errors: 0 };
+
+  // 移出并关闭会话，进行中的流仍可完成
+  const evict = (entry: PooledSession, destroy = false) => {
+    entry.draining = true;
+    _.pull(pool, entry);
+    clearInterval(entry.timer);
+    const { session } = entry;
+    if (!session || session.closed || session.destroyed) return;
+    destroy ? session.destroy() : session.close();
+  };
+
+  // 当前会话允许的最大并发流数
+  const streamLimit = (entry: PooledSession) => {
+    const remoteLimit =
+      entry.session && entry.session.remoteSettings
+        ? entry.session.remoteSettings.maxConcurrentStreams
+        : undefined;
+    return Math.min(maxStreams, _.defaultTo(remoteLimit, maxStreams));
+  };
+
+  // 定时保活，并回收空闲超时的会话
+  const keepAlive = (entry: PooledSession) => {
+    const { session } = entry;
+    if (!entry.active && util.timestamp() - entry.lastUsedTime > idleTimeout) {
+      logger.info(`HTTP/2 session to ${authority} idle, closed`);
+      return evict(entry);
+    }
+    if (!pingInterval || session.destroyed) return;
+    session.ping((err) => {
+      if (!err) return;
+      logger.warn(`HTTP/2 session ping failed: ${err.message}`);
+      metrics.errors++;
+      evict(entry, true);
+    });
+  };
+
+  // 建立新会话并加入池
+  const connect = () => {
+    const entry: PooledSession = {
+      session: null,
+      ready: null,
+      active: 0,
+      lastUsedTime: util.timestamp(),
+      draining: false,
+    };
+    entry.ready = new Promise((resolve, reject) => {
+      const session = http2.connect(authority, connectOptions);
+      entry.session = session;
+      session.once("connect", () => {
+        entry.timer = setInterval(
+          () => keepAlive(entry),
+          Math.min(pingInterval || idleTimeout, idleTimeout)
+        );
+        entry.timer.unref();
+        resolve(session);
+      });
+      session.on("goaway", () => {
+        metrics.goaways++;
+        // 不再分配新的流，已有的流完成后会话自动关闭
+        entry.draining = true;
+        _.pull(pool, entry);
+        clearInterval(entry.timer);
+      });
+      session.on("error", (err) => {
+        logger.warn(`HTTP/2 session error: ${err.message}`);
+        metrics.errors++;
+        evict(entry, true);
+        reject(err);
+      });
+      session.once("close", () => {
+        metrics.closed++;
+        evict(entry);
+        reject(new Error("HTTP/2 session closed before connected"));
+      });
+    });
+    // 避免未被等待的连接失败产生未处理的Promise拒绝
+    entry.ready.catch(() => {});
+    pool.push(entry);
+    metrics.created++;
+    return entry;
+  };
+
+  // 获取可用会话，优先复用进行中流数最少的会话
+  const pick = () => {
+    const available = pool.filter(
+      (entry) =>
+        !entry.draining &&
+        !(entry.session && (entry.session.closed || entry.session.destroyed)) &&
+        entry.active < streamLimit(entry)
+    );
+    const entry = _.minBy(available, "active");
+    if (!entry) return connect();
+    metrics.reused++;
+    return entry;
+  };
+
+  /**
+   * 在池中会话上发起请求
+   *
+   * 分配到的会话已失效时建立新连接重试一次，连接失败的会话直接销毁，无法发起新流的会话等待其它流完成后关闭
+   *
+   * @param headers 请求headers
+   * @returns 会话租约和请求流
+   */
+  const request = async (
+    headers: OutgoingHttpHeaders,
+    retry = true
+  ): Promise<{ session: SessionLease; stream: ClientHttp2Stream }> => {
+    const entry = pick();
+    entry.active++;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      entry.active = Math.max(entry.active - 1, 0);
+      entry.lastUsedTime = util.timestamp();
+    };
+    // 移出当前会话后在新会话上重试
+    const reconnect = (err: any, destroy: boolean) => {
+      release();
+      evict(entry, destroy);
+      if (!retry) throw err;
+      logger.warn(`HTTP/2 session unavailable, reconnecting: ${err.message}`);
+      return request(headers, false);
+    };
+    let session: ClientHttp2Session;
+    try {
+      session = await entry.ready;
+    } catch (err) {
+      return reconnect(err, true);
+    }
+    let stream: ClientHttp2Stream;
+    try {
+      stream = session.request(headers);
+    } catch (err) {
+      // 会话为共享会话，其上进行中的流不受影响
+      return reconnect(err, false);
+    }
+    stream.once("close", release);
+    return {
+      session: {
+        session: entry.session,
+        close: () => {
+          !stream.closed && stream.close();
+          release();
+        },
+      },
+      stream,
+    };
+  };
+
+  /**
+   * 获取会话池统计
+   */
+  const getStats = (): SessionPoolStats => ({
+    sessions: pool.length,
+    activeStreams: _.sumBy(pool, "active"),
+    ...metrics,
+  });
+
+  /**
+   * 关闭池中所有会话
+   */
+  const destroy = () => [...pool].forEach((entry) => evict(entry));
+
+  return {
+    request,
+    getStats,
+    destroy,
+  };
+}
+
+/**
+ * HTTP/2会话池
+ */
+export type SessionPool = ReturnType<typeof create>;
+
+export default {
+  create,
+};
@@ -0,0 +1,180 @@
+import { EventEmitter } from "events";
+import _ from "lodash";
+
+import core from "./core.ts";
+import tokenPool from "./token-pool.ts";
+import Exception from "@/lib/exceptions/Exception.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+// 设备信息提前预热的秒数
+const DEVICE_INFO_PREWARM_AHEAD = 1800;
+
+/**
+ * Token检测结果
+ */
+export interface TokenCheckResult {
+  /** 脱敏后的token */
+  token: string;
+  /** 是否存活 */
+  live: boolean;
+  /** 是否得到hailuo的明确响应，网络错误时为false，此时live不代表token已失效 */
+  reachable: boolean;
+  /** 用户昵称 */
+  nickname: string | null;
+  /** 用户ID */
+  id: string | null;
+  /** 设备注册状态 */
+  device: { registered: boolean; expired: boolean; refreshTime: number | null };
+  /** 检测失败的错误消息 */
+  error?: string;
+  /** 检测时间（秒级时间戳） */
+  checkedAt: number;
+  /** 是否来自缓存 */
+  cached: boolean;
+}
+
+// Token健康事件，token失效时触发dead事件，恢复时触发recover事件
+const events = new EventEmitter();
+// Token检测结果缓存映射
+const checkResultCache = new Map<
+  string,
+  { result: TokenCheckResult; expireTime: number }
+>();
+
+/**
+ * 检测单个Token
+ *
+ * 检测结果在配置的时间窗口内缓存，避免频繁请求hailuo，网络错误导致的检测失败不缓存
+ *
+ * @param token 认证token
+ * @param force 是否忽略缓存
+ */
+async function checkToken(
+  token: string,
+  force = false
+): Promise<TokenCheckResult> {
+  const cache = checkResultCache.get(token);
+  if (!force && cache && cache.expireTime > util.timestamp())
+    return { ...cache.result, cached: true };
+  let userInfo = null,
+    reachable = true,
+    error: string;
+  try {
+    userInfo = await core.getTokenInfo(token);
+  } catch (err) {
+    // hailuo返回的错误会被转换为异常，其余错误为DNS、连接重置、超时等网络错误
+    reachable = err instanceof Exception;
+    error = err.message;
+  }
+  const result: TokenCheckResult = {
+    token: core.maskToken(token),
+    live: _.isObject(userInfo),
+    reachable,
+    nickname: _.get(userInfo, "nickName") || _.get(userInfo, "name") || null,
+    id:
+      _.toString(_.get(userInfo, "userID") || _.get(userInfo, "id")) || null,
+    device: core.getDeviceInfoStatus(token),
+    error,
+    checkedAt: util.unixTimestamp(),
+    cached: false,
+  };
+  if (!reachable) return result;
+  checkResultCache.set(token, {
+    result,
+    expireTime: util.timestamp() + config.system.tokenCheckCacheTime,
+  });
+  return result;
+}
+
+/**
+ * 批量检测Token
+ *
+ * @param tokens Token列表
+ * @param force 是否忽略缓存
+ */
+async function checkTokens(tokens: string[], force = false) {
+  return await util.mapLimit(
+    _.uniq(tokens),
+    config.system.tokenCheckConcurrency,
+    (token) => checkToken(token, force)
+  );
+}
+
+/**
+ * 对所有托管Token执行一轮健康检查
+ *
+ * 检查前随机抖动避免集中请求，存活的token会预热即将过期的设备信息，失效的token将被禁用直到恢复
+ *
+ * 网络错误无法判断token是否失效，保持token当前状态
+ */
+async function runHealthCheck() {
+  const tokens = config.service.managedTokens;
+  if (!tokens.length) return;
+  const { tokenHealthCheckConcurrency, tokenHealthCheckJitter } =
+    config.system;
+  logger.info(`Token health check started for ${tokens.length} tokens`);
+  await util.mapLimit(tokens, tokenHealthCheckConcurrency, async (token) => {
+    await new Promise((resolve) =>
+      setTimeout(resolve, _.random(0, tokenHealthCheckJitter))
+    );
+    const result = await checkToken(token, true);
+    const wasDisabled = tokenPool.isDisabled(token);
+    if (!result.reachable) {
+      logger.warn(
+        `Token ${result.token} check failed, state kept: ${result.error}`
+      );
+      return;
+    }
+    if (result.live) {
+      await core
+        .acquireDeviceInfo(token, DEVICE_INFO_PREWARM_AHEAD)
+        .catch((err) =>
+          logger.warn(
+            `Token ${result.token} device info prewarm failed: ${err.message}`
+          )
+        );
+      if (wasDisabled) {
+        tokenPool.enable(token);
+        logger.success(`Token ${result.token} recovered`);
+        events.emit("recover", result);
+      }
+    } else if (!wasDisabled) {
+      tokenPool.disable(token);
+      logger.warn(
+        `Token ${result.token} is dead${result.error ? `: ${result.error}` : ""}`
+      );
+      events.emit("dead", result);
+    }
+  });
+  logger.info("Token health check completed");
+}
+
+/**
+ * 启动托管Token定时健康检查
+ */
+function startScheduledCheck() {
+  const { tokenHealthCheckCron } = config.system;
+  if (!tokenHealthCheckCron || !config.service.managedTokens.length) return;
+  let running = false;
+  const job = util.createCronJob(tokenHealthCheckCron, () => {
+    // 上一轮未完成时跳过本轮
+    if (running) return;
+    running = true;
+    runHealthCheck()
+      .catch((err) => logger.error("Token health check error:", err))
+      .finally(() => (running = false));
+  });
+  job.start();
+  logger.info(`Token health check scheduled: ${tokenHealthCheckCron}`);
+  return job;
+}
+
+export default {
+  events,
+  checkToken,
+  checkTokens,
+  runHealthCheck,
+  startScheduledCheck,
+};
@@ -0,0 +1,111 @@
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import core from "./core.ts";
+import config from "@/lib/config.ts";
+
+/**
+ * Token并发闸门
+ */
+interface Gate {
+  /** 进行中的请求数 */
+  active: number;
+  /** 等待队列 */
+  queue: { resolve: Function; reject: Function; timer: NodeJS.Timeout }[];
+}
+
+// Token并发闸门映射
+const gateMap = new Map<string, Gate>();
+
+/**
+ * 获取Token并发闸门
+ *
+ * @param token 认证token
+ */
+function getGate(token: string) {
+  let gate = gateMap.get(token);
+  if (!gate) {
+    gate = { active: 0, queue: [] };
+    gateMap.set(token, gate);
+  }
+  return gate;
+}
+
+/**
+ * 释放一个并发位，存在排队请求时直接移交给队首
+ *
+ * @param token 认证token
+ */
+function releaseSlot(token: string) {
+  const gate = getGate(token);
+  const next = gate.queue.shift();
+  if (next) {
+    clearTimeout(next.timer);
+    return next.resolve();
+  }
+  gate.active = Math.max(gate.active - 1, 0);
+  if (!gate.active) gateMap.delete(token);
+}
+
+/**
+ * 获取Token并发位
+ *
+ * 并发已满时进入等待队列，队列已满或等待超时将抛出429异常
+ *
+ * @param token 认证token
+ * @returns 释放函数，可重复调用
+ */
+async function acquire(token: string): Promise<() => void> {
+  const { tokenConcurrency, tokenQueueSize, tokenQueueTimeout } =
+    config.system;
+  const gate = getGate(token);
+  if (gate.active < tokenConcurrency) gate.active++;
+  else {
+    if (gate.queue.length >= tokenQueueSize)
+      throw new APIException(
+        EX.API_CHAT_STREAM_PUSHING,
+        `Token ${core.maskToken(token)} is busy, request queue is full`
+      ).setHTTPStatusCode(429);
+    await new Promise((resolve, reject) => {
+      const waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          gate.queue.splice(gate.queue.indexOf(waiter), 1);
+          reject(
+            new APIException(
+              EX.API_CHAT_STREAM_PUSHING,
+              `Token ${core.maskToken(token)} is busy, request queue timeout`
+            ).setHTTPStatusCode(429)
+          );
+        }, tokenQueueTimeout),
+      };
+      gate.queue.push(waiter);
+    });
+  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    releaseSlot(token);
+  };
+}
+
+/**
+ * 获取各Token并发及排队状态
+ */
+function getStats() {
+  const stats = [];
+  for (let [token, gate] of gateMap) {
+    stats.push({
+      token: core.maskToken(token),
+      active: gate.active,
+      queued: gate.queue.length,
+    });
+  }
+  return stats;
+}
+
+export default {
+  acquire,
+  getStats,
+};
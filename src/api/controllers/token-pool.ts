@@ -0,0 +1,268 @@
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import core from "./core.ts";
+import tokenStats from "./token-stats.ts";
+import errorClassifier from "./error-classifier.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+// 冷却基础时长（毫秒）
+const COOLDOWN_BASE = 30000;
+// 冷却最大时长（毫秒）
+const COOLDOWN_MAX = 600000;
+// 连续普通失败多少次后进入冷却
+const FAILURE_THRESHOLD = 3;
+// 延迟平滑系数
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Token健康状态
+ */
+export interface TokenState {
+  /** 成功次数 */
+  successCount: number;
+  /** 失败次数 */
+  failureCount: number;
+  /** 连续失败次数 */
+  consecutiveFailures: number;
+  /** 进行中的请求数 */
+  inFlight: number;
+  /** 平均延迟（毫秒） */
+  latency: number;
+  /** 冷却截止时间戳（毫秒） */
+  cooldownUntil: number;
+  /** 平滑加权轮询当前权重 */
+  currentWeight: number;
+  /** 最近一次错误消息 */
+  lastError: string | null;
+  /** 是否已被健康检查禁用 */
+  disabled: boolean;
+}
+
+// Token状态映射
+const stateMap = new Map<string, TokenState>();
+
+/**
+ * 获取Token状态，不存在则初始化
+ *
+ * @param token 认证token
+ */
+function getState(token: string): TokenState {
+  let state = stateMap.get(token);
+  if (!state) {
+    state = {
+      successCount: 0,
+      failureCount: 0,
+      consecutiveFailures: 0,
+      inFlight: 0,
+      latency: 0,
+      cooldownUntil: 0,
+      currentWeight: 0,
+      lastError: null,
+      disabled: false,
+    };
+    stateMap.set(token, state);
+  }
+  return state;
+}
+
+/**
+ * 判断Token是否处于冷却中
+ *
+ * @param token 认证token
+ */
+function isBenched(token: string) {
+  return getState(token).cooldownUntil > util.timestamp();
+}
+
+/**
+ * 禁用Token，禁用后不再被挑选直到重新启用
+ *
+ * @param token 认证token
+ */
+function disable(token: string) {
+  getState(token).disabled = true;
+}
+
+/**
+ * 启用Token
+ *
+ * @param token 认证token
+ */
+function enable(token: string) {
+  const state = getState(token);
+  state.disabled = false;
+  state.consecutiveFailures = 0;
+  state.cooldownUntil = 0;
+}
+
+/**
+ * 判断Token是否已禁用
+ *
+ * @param token 认证token
+ */
+function isDisabled(token: string) {
+  return getState(token).disabled;
+}
+
+/**
+ * 计算Token权重
+ *
+ * 成功率越高、延迟越低权重越高，新Token给予满权重以便尽快获得样本
+ *
+ * @param state Token状态
+ */
+function weightOf(state: TokenState) {
+  const total = state.successCount + state.failureCount;
+  const successRate = total ? (state.successCount + 1) / (total + 1) : 1;
+  const latencyFactor = state.latency ? 10000 / (10000 + state.latency) : 1;
+  return Math.max(successRate * latencyFactor * 100, 1);
+}
+
+/**
+ * 从Token列表中挑选一个Token
+ *
+ * 忽略已禁用的Token，优先挑选未冷却的Token，其中进行中请求最少的优先，同等情况下按平滑加权轮询挑选；
+ * 如果全部Token都在冷却则挑选最早结束冷却的Token
+ *
+ * @param tokens Token列表
+ * @param excludes 排除的Token列表
+ */
+function select(tokens: string[], excludes: string[] = []) {
+  const candidates = _.uniq(tokens).filter(
+    (token) => token && !excludes.includes(token)
+  );
+  if (!candidates.length)
+    throw new APIException(EX.API_REQUEST_PARAMS_INVALID, "No token available");
+  const enabled = candidates.filter((token) => !isDisabled(token));
+  if (!enabled.length)
+    throw new APIException(EX.API_TOKEN_EXPIRES, "All tokens are disabled");
+  const healthy = enabled.filter((token) => !isBenched(token));
+  if (!healthy.length)
+    return _.minBy(enabled, (token) => getState(token).cooldownUntil);
+  const minInFlight = _.min(healthy.map((token) => getState(token).inFlight));
+  const idle = healthy.filter(
+    (token) => getState(token).inFlight == minInFlight
+  );
+  let totalWeight = 0;
+  let best: string;
+  for (let token of idle) {
+    const state = getState(token);
+    const weight = weightOf(state);
+    state.currentWeight += weight;
+    totalWeight += weight;
+    if (!best || state.currentWeight > getState(best).currentWeight)
+      best = token;
+  }
+  getState(best).currentWeight -= totalWeight;
+  return best;
+}
+
+/**
+ * 标记Token开始处理请求
+ *
+ * @param token 认证token
+ * @returns 开始时间戳
+ */
+function begin(token: string) {
+  getState(token).inFlight++;
+  return util.timestamp();
+}
+
+/**
+ * 标记Token请求成功
+ *
+ * @param token 认证token
+ * @param startTime 开始时间戳
+ */
+function succeed(token: string, startTime: number) {
+  const state = getState(token);
+  const latency = util.timestamp() - startTime;
+  state.inFlight = Math.max(state.inFlight - 1, 0);
+  state.successCount++;
+  tokenStats.recordSuccess(token);
+  state.consecutiveFailures = 0;
+  state.cooldownUntil = 0;
+  state.latency = state.latency
+    ? Math.round(
+      state.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING
+    )
+    : latency;
+}
+
+/**
+ * 标记Token请求被客户端取消，不计入成功或失败
+ *
+ * @param token 认证token
+ */
+function cancel(token: string) {
+  const state = getState(token);
+  state.inFlight = Math.max(state.inFlight - 1, 0);
+}
+
+/**
+ * 判断错误是否为账号或上游错误
+ *
+ * @param err 错误对象
+ */
+function isAccountError(err: any) {
+  if (err instanceof APIException)
+    return (
+      err.compare(EX.API_REQUEST_FAILED) || err.compare(EX.API_TOKEN_EXPIRES)
+    );
+  return _.isError(err) && /^Stream response error/.test(err.message);
+}
+
+/**
+ * 标记Token请求失败
+ *
+ * 账号或上游错误立即进入冷却，其它错误连续达到阈值后进入冷却，冷却时长随连续失败次数指数增长，与token无关的不可重试错误不影响健康状态
+ *
+ * @param token 认证token
+ * @param err 错误对象
+ * @param startTime 开始时间戳
+ */
+function fail(token: string, err: any, startTime?: number) {
+  const state = getState(token);
+  if (startTime) state.inFlight = Math.max(state.inFlight - 1, 0);
+  // 不可重试的错误同样计入按错误码的失败统计
+  tokenStats.recordFailure(token, err);
+  if (!errorClassifier.isRetryable(err)) return;
+  state.failureCount++;
+  state.consecutiveFailures++;
+  state.lastError = err && err.message ? err.message : `${err}`;
+  if (!isAccountError(err) && state.consecutiveFailures < FAILURE_THRESHOLD)
+    return;
+  const cooldown = Math.min(
+    COOLDOWN_BASE * Math.pow(2, state.consecutiveFailures - 1),
+    COOLDOWN_MAX
+  );
+  state.cooldownUntil = util.timestamp() + cooldown;
+  logger.warn(
+    `Token ${core.maskToken(token)} benched for ${cooldown / 1000}s: ${state.lastError}`
+  );
+}
+
+/**
+ * 获取Token状态快照
+ *
+ * @param token 认证token
+ */
+function getStatus(token: string) {
+  return { ...getState(token), benched: isBenched(token) };
+}
+
+export default {
+  select,
+  begin,
+  succeed,
+  cancel,
+  fail,
+  isBenched,
+  disable,
+  enable,
+  isDisabled,
+  getStatus,
+};
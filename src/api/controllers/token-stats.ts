@@ -0,0 +1,231 @@
+import path from "path";
+
+import fs from "fs-extra";
+import _ from "lodash";
+
+import core from "./core.ts";
+import config from "@/lib/config.ts";
+import logger from "@/lib/logger.ts";
+import util from "@/lib/util.ts";
+
+// 每个token保留的延迟样本数
+const LATENCY_SAMPLE_SIZE = 1000;
+// 快照写入间隔（毫秒）
+const SNAPSHOT_INTERVAL = 60000;
+
+/**
+ * Token使用统计
+ */
+interface TokenStats {
+  /** 脱敏后的token */
+  token: string;
+  /** 各路由请求次数 */
+  requests: Record<string, number>;
+  /** 成功次数 */
+  successes: number;
+  /** 各错误码失败次数 */
+  failures: Record<string, number>;
+  /** 延迟总和（毫秒） */
+  latencyTotal: number;
+  /** 延迟记录次数 */
+  latencyCount: number;
+  /** 最近的延迟样本（毫秒） */
+  latencySamples: number[];
+  /** 生成的语音字节数 */
+  audioBytes: number;
+  /** 统计开始时间（秒级时间戳） */
+  since: number;
+}
+
+// Token统计映射（以token哈希为键，避免将token明文写入快照）
+const statsMap: Map<string, TokenStats> = loadSnapshot();
+// 是否有未写入快照的变更
+let dirty = false;
+
+/**
+ * 从快照文件加载统计数据
+ */
+function loadSnapshot() {
+  const map = new Map<string, TokenStats>();
+  const filePath = config.system.tokenStatsFilePath;
+  try {
+    if (!fs.pathExistsSync(filePath)) return map;
+    const data = JSON.parse(fs.readFileSync(filePath).toString());
+    for (let key in data) map.set(key, data[key]);
+  } catch (err) {
+    logger.warn(`Token stats snapshot load failed: ${err.message}`);
+  }
+  return map;
+}
+
+/**
+ * 写入统计快照
+ *
+ * @param sync 是否同步写入，用于进程退出时
+ */
+function saveSnapshot(sync = false) {
+  if (!dirty) return;
+  dirty = false;
+  const filePath = config.system.tokenStatsFilePath;
+  const data = JSON.stringify(Object.fromEntries(statsMap));
+  if (sync) {
+    try {
+      fs.ensureDirSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, data);
+    } catch (err) {
+      console.error("Token stats snapshot save failed:", err);
+    }
+    return;
+  }
+  util
+    .writeFileAtomic(filePath, data)
+    .catch((err) => logger.error("Token stats snapshot save failed:", err));
+}
+
+setInterval(() => saveSnapshot(), SNAPSHOT_INTERVAL).unref();
+process.on("exit", () => saveSnapshot(true));
+
+/**
+ * 获取Token统计，不存在则初始化
+ *
+ * @param token 认证token
+ */
+function getStats(token: string) {
+  const key = util.md5(token);
+  let stats = statsMap.get(key);
+  if (!stats) {
+    stats = {
+      token: core.maskToken(token),
+      requests: {},
+      successes: 0,
+      failures: {},
+      latencyTotal: 0,
+      latencyCount: 0,
+      latencySamples: [],
+      audioBytes: 0,
+      since: util.unixTimestamp(),
+    };
+    statsMap.set(key, stats);
+  }
+  dirty = true;
+  return stats;
+}
+
+/**
+ * 记录请求
+ *
+ * @param token 认证token
+ * @param route 请求路由
+ */
+function recordRequest(token: string, route: string) {
+  const stats = getStats(token);
+  stats.requests[route] = (stats.requests[route] || 0) + 1;
+}
+
+/**
+ * 记录成功
+ *
+ * @param token 认证token
+ */
+function recordSuccess(token: string) {
+  getStats(token).successes++;
+}
+
+/**
+ * 记录失败
+ *
+ * @param token 认证token
+ * @param err 错误对象
+ */
+function recordFailure(token: string, err: any) {
+  const stats = getStats(token);
+  const code = `${_.get(err, "errcode") || _.get(err, "code") || "UNKNOWN"}`;
+  stats.failures[code] = (stats.failures[code] || 0) + 1;
+}
+
+/**
+ * 记录流传输延迟
+ *
+ * @param token 认证token
+ * @param latency 延迟（毫秒）
+ */
+function recordLatency(token: string, latency: number) {
+  const stats = getStats(token);
+  stats.latencyTotal += latency;
+  stats.latencyCount++;
+  stats.latencySamples.push(latency);
+  if (stats.latencySamples.length > LATENCY_SAMPLE_SIZE)
+    stats.latencySamples.shift();
+}
+
+/**
+ * 记录生成的语音字节数
+ *
+ * @param token 认证token
+ * @param bytes 字节数
+ */
+function recordAudioBytes(token: string, bytes: number) {
+  getStats(token).audioBytes += bytes;
+}
+
+/**
+ * 计算百分位数
+ *
+ * @param sorted 升序样本
+ * @param percent 百分位
+ */
+function percentile(sorted: number[], percent: number) {
+  if (!sorted.length) return null;
+  return sorted[
+    Math.min(Math.ceil((percent / 100) * sorted.length) - 1, sorted.length - 1)
+  ];
+}
+
+/**
+ * 获取所有Token统计报告
+ */
+function getReport() {
+  return Array.from(statsMap.values()).map((stats) => {
+    const sorted = _.sortBy(stats.latencySamples);
+    const failures = _.sum(Object.values(stats.failures));
+    return {
+      token: stats.token,
+      requests: stats.requests,
+      successes: stats.successes,
+      failures,
+      failuresByCode: stats.failures,
+      latency: {
+        avg: stats.latencyCount
+          ? Math.round(stats.latencyTotal / stats.latencyCount)
+          : null,
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+      },
+      audioBytes: stats.audioBytes,
+      since: stats.since,
+    };
+  });
+}
+
+/**
+ * 重置统计
+ *
+ * @param tokens 需要重置的token列表，不提供则重置全部
+ */
+function reset(tokens?: string[]) {
+  if (tokens) tokens.forEach((token) => statsMap.delete(util.md5(token)));
+  else statsMap.clear();
+  dirty = true;
+  saveSnapshot();
+}
+
+export default {
+  recordRequest,
+  recordSuccess,
+  recordFailure,
+  recordLatency,
+  recordAudioBytes,
+  getReport,
+  reset,
+};
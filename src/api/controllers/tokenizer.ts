@@ -0,0 +1,97 @@
+import _ from "lodash";
+
+/**
+ * 分词器
+ */
+export interface Tokenizer {
+  /** 分词器名称 */
+  name: string;
+  /** 计算文本的token数 */
+  count: (text: string) => number;
+}
+
+// 文本切分规则：中日韩字符、英文单词、数字、空白及其它符号
+const SEGMENT_REGEXP =
+  /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]|[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * 默认分词器
+ *
+ * 按规则切分后估算：中日韩字符每字1个token，英文单词每4个字母1个token，数字每3位1个token，其它符号每个1个token
+ */
+const defaultTokenizer: Tokenizer = {
+  name: "default",
+  count(text: string) {
+    if (!text) return 0;
+    const segments: string[] = text.match(SEGMENT_REGEXP) || [];
+    return segments.reduce((count, segment) => {
+      if (/^\s+$/.test(segment)) return count;
+      if (/^[A-Za-z]+$/.test(segment))
+        return count + Math.ceil(segment.length / 4);
+      if (/^\d+$/.test(segment)) return count + Math.ceil(segment.length / 3);
+      return count + 1;
+    }, 0);
+  },
+};
+
+// 已注册的分词器，后注册的优先匹配
+const registry: { pattern: RegExp; tokenizer: Tokenizer }[] = [];
+
+/**
+ * 注册分词器
+ *
+ * @param pattern 匹配的模型名称，字符串为完全匹配
+ * @param tokenizer 分词器
+ */
+function register(pattern: RegExp | string, tokenizer: Tokenizer) {
+  registry.unshift({
+    pattern: _.isString(pattern)
+      ? new RegExp(`^${_.escapeRegExp(pattern)}$`)
+      : pattern,
+    tokenizer,
+  });
+}
+
+/**
+ * 获取模型对应的分词器，未注册则使用默认分词器
+ *
+ * @param model 模型名称
+ */
+function getTokenizer(model: string) {
+  const entry = registry.find(({ pattern }) => pattern.test(model || ""));
+  return entry ? entry.tokenizer : defaultTokenizer;
+}
+
+/**
+ * 计算文本的token数
+ *
+ * @param model 模型名称
+ * @param text 文本
+ */
+function count(model: string, text: string) {
+  return getTokenizer(model).count(text || "");
+}
+
+/**
+ * 创建用量统计
+ *
+ * @param model 模型名称
+ * @param prompt 提示词文本
+ * @param completion 生成的文本
+ */
+function createUsage(model: string, prompt: string, completion: string) {
+  const prompt_tokens = count(model, prompt);
+  const completion_tokens = count(model, completion);
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
+  };
+}
+
+export default {
+  register,
+  getTokenizer,
+  count,
+  createUsage,
+};
@@ -0,0 +1,264 @@
+import _ from "lodash";
+
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
+import util from "@/lib/util.ts";
+
+// 工具调用块开始标记
+const TOOL_CALLS_START = "<tool_calls>";
+// 工具调用块结束标记
+const TOOL_CALLS_END = "</tool_calls>";
+
+/**
+ * 解析后的工具调用结果
+ */
+export interface ParsedToolCalls {
+  /** 工具调用块之外的文本内容 */
+  content: string | null;
+  /** OpenAI格式的工具调用列表 */
+  toolCalls: any[];
+}
+
+/**
+ * 判断本次请求是否启用工具调用
+ *
+ * @param tools 工具定义列表
+ * @param toolChoice 工具选择
+ */
+function isEnabled(tools?: any[], toolChoice?: any) {
+  return _.isArray(tools) && tools.length > 0 && toolChoice !== "none";
+}
+
+/**
+ * 渲染工具定义说明
+ *
+ * @param tools 工具定义列表
+ * @param toolChoice 工具选择
+ */
+function renderToolsPrompt(tools: any[], toolChoice?: any) {
+  const definitions = tools
+    .filter((tool) => tool && tool.type == "function" && tool.function)
+    .map(({ function: fn }) =>
+      JSON.stringify({
+        name: fn.name,
+        description: fn.description || "",
+        parameters: fn.parameters || { type: "object", properties: {} },
+      })
+    )
+    .join("\n");
+  let requirement = "如果需要调用工具，";
+  if (toolChoice == "required") requirement = "你必须调用至少一个工具，";
+  else if (_.isObject(toolChoice) && _.get(toolChoice, "function.name"))
+    requirement = `你必须调用工具${_.get(toolChoice, "function.name")}，`;
+  return (
+    `你可以使用以下工具，每行一个工具的JSON定义：\n${definitions}\n` +
+    `${requirement}请只输出如下格式的内容，可以同时调用多个工具，不要输出其它解释：\n` +
+    `${TOOL_CALLS_START}\n[{"name": "工具名称", "arguments": {"参数名": "参数值"}}]\n${TOOL_CALLS_END}\n` +
+    "如果不需要调用工具，请直接回答。"
+  );
+}
+
+/**
+ * 渲染助手发起的工具调用
+ *
+ * @param toolCalls OpenAI格式的工具调用列表
+ */
+function renderToolCalls(toolCalls: any[]) {
+  const calls = toolCalls.map((call) => ({
+    name: _.get(call, "function.name"),
+    arguments:
+      util.ignoreJSONParse(_.get(call, "function.arguments")) ||
+      _.get(call, "function.arguments") ||
+      {},
+  }));
+  return `${TOOL_CALLS_START}\n${JSON.stringify(calls)}\n${TOOL_CALLS_END}`;
+}
+
+/**
+ * 预处理工具调用相关消息
+ *
+ * 注入工具定义说明，并将助手的工具调用和工具返回结果序列化为文本消息，以便合并到对话内容中
+ *
+ * @param messages 参考gpt系列消息格式
+ * @param tools 工具定义列表
+ * @param toolChoice 工具选择
+ */
+function prepareMessages(messages: any[], tools: any[], toolChoice?: any) {
+  const names = {};
+  const prepared = messages.map((message) => {
+    if (message.role == "assistant" && _.isArray(message.tool_calls)) {
+      message.tool_calls.forEach(
+        (call) => (names[call.id] = _.get(call, "function.name"))
+      );
+      const text = _.isString(message.content) ? message.content : "";
+      return {
+        role: "assistant",
+        content: `${text ? `${text}\n` : ""}${renderToolCalls(message.tool_calls)}`,
+      };
+    }
+    if (message.role == "tool") {
+      const name = names[message.tool_call_id] || message.name || "";
+      const content = _.isString(message.content)
+        ? message.content
+        : JSON.stringify(message.content);
+      return {
+        role: "tool",
+        content: `[工具${name}返回结果]\n${content}`,
+      };
+    }
+    return message;
+  });
+  return [
+    { role: "system", content: renderToolsPrompt(tools, toolChoice) },
+    ...prepared,
+  ];
+}
+
+/**
+ * 从输出内容中解析工具调用
+ *
+ * 未包含工具调用块时返回null，工具调用块格式错误时抛出异常
+ *
+ * @param content 输出内容
+ * @param tools 工具定义列表
+ */
+function parse(content: string, tools: any[]): ParsedToolCalls | null {
+  const startIndex = content.indexOf(TOOL_CALLS_START);
+  if (startIndex == -1) return null;
+  const endIndex = content.indexOf(TOOL_CALLS_END, startIndex);
+  const block = content
+    .substring(
+      startIndex + TOOL_CALLS_START.length,
+      endIndex == -1 ? content.length : endIndex
+    )
+    .trim()
+    // 移除模型可能添加的代码块标记
+    .replace(/^```(?:json)?\s*/, "")
+    .replace(/\s*```$/, "");
+  const result = _.attempt(() => JSON.parse(block));
+  if (_.isError(result))
+    throw new APIException(
+      EX.API_TOOL_CALL_INVALID,
+      `Tool calls is not valid JSON: ${result.message}`
+    );
+  const calls = _.castArray(result);
+  const names = tools.map((tool) => _.get(tool, "function.name"));
+  const toolCalls = calls.map((call, index) => {
+    if (!_.isObject(call) || !names.includes(call["name"]))
+      throw new APIException(
+        EX.API_TOOL_CALL_INVALID,
+        `Tool call ${index} has unknown tool name: ${_.get(call, "name")}`
+      );
+    const args = call["arguments"];
+    return {
+      index,
+      id: `call_${util.uuid(false).substring(0, 24)}`,
+      type: "function",
+      function: {
+        name: call["name"],
+        arguments: _.isString(args) ? args : JSON.stringify(args || {}),
+      },
+    };
+  });
+  const text = (
+    content.substring(0, startIndex) +
+    (endIndex == -1 ? "" : content.substring(endIndex + TOOL_CALLS_END.length))
+  ).trim();
+  return { content: text || null, toolCalls };
+}
+
+/**
+ * 将工具调用结果应用到补全结果
+ *
+ * @param answer 补全结果
+ * @param tools 工具定义列表
+ */
+function applyToAnswer(answer: any, tools: any[]) {
+  const choice = answer.choices[0];
+  const parsed = parse(choice.message.content, tools);
+  if (!parsed) return answer;
+  choice.message.content = parsed.content;
+  choice.message.tool_calls = parsed.toolCalls.map((call) =>
+    _.omit(call, "index")
+  );
+  choice.finish_reason = "tool_calls";
+  return answer;
+}
+
+/**
+ * 构建纠正工具调用格式的消息列表
+ *
+ * @param messages 原始消息列表
+ * @param output 格式错误的输出内容
+ * @param err 解析错误
+ */
+function buildCorrectionMessages(messages: any[], output: string, err: any) {
+  return [
+    ...messages,
+    { role: "assistant", content: output },
+    {
+      role: "user",
+      content: `你输出的工具调用格式有误：${err.message}。请严格按照 ${TOOL_CALLS_START}[{"name": "工具名称", "arguments": {...}}]${TOOL_CALLS_END} 格式重新输出工具调用，工具名称必须来自工具列表。`,
+    },
+  ];
+}
+
+/**
+ * 创建流式工具调用拆分器
+ *
+ * 将可安全输出的文本与工具调用块分离，可能是工具调用块开始标记的尾部文本会暂时保留
+ */
+function createStreamSplitter() {
+  let buffer = "";
+  let capturing = false;
+  return {
+    /**
+     * 推入文本块
+     *
+     * @param chunk 文本块
+     * @returns 可安全输出的文本
+     */
+    push(chunk: string) {
+      buffer += chunk;
+      if (capturing) return "";
+      const startIndex = buffer.indexOf(TOOL_CALLS_START);
+      if (startIndex != -1) {
+        capturing = true;
+        const text = buffer.substring(0, startIndex);
+        buffer = buffer.substring(startIndex);
+        return text;
+      }
+      // 保留可能是开始标记前缀的尾部
+      let holdLength = 0;
+      const maxLength = Math.min(TOOL_CALLS_START.length - 1, buffer.length);
+      for (let i = maxLength; i > 0; i--) {
+        if (TOOL_CALLS_START.startsWith(buffer.substring(buffer.length - i))) {
+          holdLength = i;
+          break;
+        }
+      }
+      const text = buffer.substring(0, buffer.length - holdLength);
+      buffer = buffer.substring(buffer.length - holdLength);
+      return text;
+    },
+    /**
+     * 结束拆分
+     *
+     * @returns 剩余文本及捕获的工具调用块
+     */
+    finish() {
+      const rest = buffer;
+      buffer = "";
+      return capturing ? { text: "", block: rest } : { text: rest, block: "" };
+    },
+  };
+}
+
+export default {
+  isEnabled,
+  prepareMessages,
+  parse,
+  applyToAnswer,
+  buildCorrectionMessages,
+  createStreamSplitter,
+};
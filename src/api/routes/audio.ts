@@ -2,10 +2,15 @@ import _ from "lodash";
 
 import Request from "@/lib/request/Request.ts";
 import Response from "@/lib/response/Response.ts";
+import APIException from "@/lib/exceptions/APIException.ts";
+import EX from "@/api/consts/exceptions.ts";
 import audio from "@/api/controllers/audio.ts";
-import modelMap from "../consts/model-map.ts";
+import modelRegistry from "../controllers/model-registry.ts";
 import environment from "@/lib/environment.ts";
-import core from "../controllers/core.ts";
+import auth from "../controllers/auth.ts";
+import tokenPool from "../controllers/token-pool.ts";
+import tokenStats from "../controllers/token-stats.ts";
+import openaiError from "../controllers/openai-error.ts";
 import logger from "@/lib/logger.ts";
 
 const REPLACE_AUDIO_MODEL_ENV = (
@@ -13,14 +18,16 @@ const REPLACE_AUDIO_MODEL_ENV = (
 )
   .split(",")
   .map((v) => v.trim());
-const VOICE_TO_MODEL_INDEX = Object.keys(modelMap["tts-1"]).reduce(
+// tts-1的发音人映射，可通过环境变量替换
+const TTS_VOICES = modelRegistry.getOptions("tts-1").voices || {};
+const VOICE_TO_MODEL_INDEX = Object.keys(TTS_VOICES).reduce(
   (obj, key, i) => {
     obj[key] = i;
     return obj;
   },
   {}
 );
-const REPLACE_AUDIO_MODEL = Object.values(modelMap["tts-1"]).map(
+const REPLACE_AUDIO_MODEL = Object.values(TTS_VOICES).map(
   (v, i) => REPLACE_AUDIO_MODEL_ENV[i] || v
 );
 
@@ -29,51 +36,72 @@ export default {
 
   post: {
     "/speech": async (request: Request) => {
-      request
-        .validate("body.input", _.isString)
-        .validate("body.voice", _.isString)
-        .validate("headers.authorization", _.isString);
-      // token切分
-      const tokens = core.tokenSplit(request.headers.authorization);
-      // 随机挑选一个token
-      const token = _.sample(tokens);
-      let { model, input, voice } = request.body;
-      if (voice in VOICE_TO_MODEL_INDEX) {
-        voice =
-          REPLACE_AUDIO_MODEL[VOICE_TO_MODEL_INDEX[voice]] || "male-botong";
-        logger.info(`请求voice切换为: ${voice}`);
+      try {
+        request
+          .validate("body.model", (v) => _.isUndefined(v) || _.isString(v))
+          .validate("body.input", _.isString)
+          .validate("body.voice", (v) => _.isUndefined(v) || _.isString(v))
+          .validate("headers.authorization", _.isString);
+        // 校验模型并解析别名，未指定发音人时使用模型默认发音人
+        const definition = modelRegistry.resolve(request.body.model, "tts");
+        const model = definition.id;
+        let { input, voice = definition.options.voice } = request.body;
+        if (!_.isString(voice))
+          throw new APIException(
+            EX.API_REQUEST_PARAMS_INVALID,
+            "Params body.voice invalid"
+          );
+        // 解析API Key或切分token
+        const tokens = auth.resolveTokens(request.headers.authorization);
+        // 从token池挑选一个健康的token
+        const token = tokenPool.select(tokens);
+        tokenStats.recordRequest(token, request.path);
+        if (voice in VOICE_TO_MODEL_INDEX) {
+          voice =
+            REPLACE_AUDIO_MODEL[VOICE_TO_MODEL_INDEX[voice]] || "male-botong";
+          logger.info(`请求voice切换为: ${voice}`);
+        }
+        const stream = await audio.createSpeech(model, input, voice, token);
+        return new Response(stream, {
+          headers: {
+            "Content-Type": "audio/mpeg",
+          },
+        });
+      } catch (err) {
+        return openaiError.createErrorResponse(err);
       }
-      const stream = await audio.createSpeech(model, input, voice, token);
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "audio/mpeg",
-        },
-      });
     },
 
     "/transcriptions": async (request: Request) => {
-      request
-        .validate("body.model", _.isString)
-        .validate("body.response_format", v => _.isUndefined(v) || _.isString(v))
-        .validate("headers.authorization", _.isString);
-      // token切分
-      const tokens = core.tokenSplit(request.headers.authorization);
-      // 随机挑选一个token
-      const token = _.sample(tokens);
-      if(!request.files['file'] && !request.body["file"])
-        throw new Error('File field is not set');
-      let tmpFilePath;
-      if(request.files['file']) {
-        const file = request.files['file'];
-        if(!['audio/mp3', 'audio/mpeg', 'audio/x-wav', 'audio/wave', 'audio/mp4a-latm', 'audio/flac', 'audio/ogg', 'audio/webm'].includes(file.mimetype))
-          throw new Error(`File MIME type ${file.mimetype} is unsupported`);
-        tmpFilePath = file.filepath;
+      try {
+        request
+          .validate("body.model", _.isString)
+          .validate("body.response_format", v => _.isUndefined(v) || _.isString(v))
+          .validate("headers.authorization", _.isString);
+        // 校验模型并解析别名
+        const { id: model } = modelRegistry.resolve(request.body.model, "asr");
+        // 解析API Key或切分token
+        const tokens = auth.resolveTokens(request.headers.authorization);
+        // 从token池挑选一个健康的token
+        const token = tokenPool.select(tokens);
+        tokenStats.recordRequest(token, request.path);
+        if(!request.files['file'] && !request.body["file"])
+          throw new APIException(EX.API_REQUEST_PARAMS_INVALID, 'File field is not set');
+        let tmpFilePath;
+        if(request.files['file']) {
+          const file = request.files['file'];
+          if(!['audio/mp3', 'audio/mpeg', 'audio/x-wav', 'audio/wave', 'audio/mp4a-latm', 'audio/flac', 'audio/ogg', 'audio/webm'].includes(file.mimetype))
+            throw new APIException(EX.API_REQUEST_PARAMS_INVALID, `File MIME type ${file.mimetype} is unsupported`);
+          tmpFilePath = file.filepath;
+        }
+        else
+          throw new APIException(EX.API_REQUEST_PARAMS_INVALID, 'File field is not set');
+        const { response_format: responseFormat = 'json' } = request.body;
+        const text = await audio.createTranscriptions(model, tmpFilePath, token, { tokens });
+        return new Response(responseFormat == 'json' ? { text } : text);
+      } catch (err) {
+        return openaiError.createErrorResponse(err);
       }
-      else
-        throw new Error('File field is not set');
-      const { model, response_format: responseFormat = 'json' } = request.body;
-      const text = await audio.createTranscriptions(model, tmpFilePath, token);
-      return new Response(responseFormat == 'json' ? { text } : text);
     },
   },
 };
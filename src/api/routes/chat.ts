@@ -2,8 +2,18 @@ import _ from 'lodash';
 
 import Request from '@/lib/request/Request.ts';
 import Response from '@/lib/response/Response.ts';
-import core from '../controllers/core.ts';
-import chat from '@/api/controllers/chat.ts';
+import APIException from '@/lib/exceptions/APIException.ts';
+import EX from '@/api/consts/exceptions.ts';
+import auth from '../controllers/auth.ts';
+import conversationAffinity from '../controllers/conversation-affinity.ts';
+import chat, { CompletionOptions } from '@/api/controllers/chat.ts';
+import chatSession from '@/api/controllers/chat-session.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import openaiError from '@/api/controllers/openai-error.ts';
+import { RetryState } from '@/api/controllers/failover.ts';
+import tokenPool from '@/api/controllers/token-pool.ts';
+import tokenStats from '@/api/controllers/token-stats.ts';
+import config from '@/lib/config.ts';
 import logger from '@/lib/logger.ts';
 
 export default {
@@ -13,23 +23,87 @@ export default {
     post: {
 
         '/completions': async (request: Request) => {
-            request
-                .validate('body.conversation_id', v => _.isUndefined(v) || _.isString(v))
-                .validate('body.messages', _.isArray)
-                .validate('headers.authorization', _.isString)
-            // token切分
-            const tokens = core.tokenSplit(request.headers.authorization);
-            // 随机挑选一个token
-            const token = _.sample(tokens);
-            const { model, conversation_id: convId, messages, stream } = request.body;
-            if (stream) {
-                const stream = await chat.createCompletionStream(model, messages, token, convId);
-                return new Response(stream, {
-                    type: "text/event-stream"
-                });
+            try {
+                request
+                    .validate('body.conversation_id', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.messages', _.isArray)
+                    .validate('body.tools', v => _.isUndefined(v) || _.isArray(v))
+                    .validate('body.tool_choice', v => _.isUndefined(v) || _.isString(v) || _.isObject(v))
+                    .validate('body.response_format', v => _.isUndefined(v) || (_.isObject(v) && ['text', 'json_object', 'json_schema'].includes(v['type'])))
+                    .validate('body.response_format.json_schema', v => _.get(request.body, 'response_format.type') != 'json_schema' || _.isObject(v))
+                    .validate('body.web_search', v => _.isUndefined(v) || _.isBoolean(v))
+                    .validate('body.stream_options', v => _.isUndefined(v) || _.isObject(v))
+                    .validate('body.stop', v => _.isUndefined(v) || _.isNull(v) || _.isString(v) || (_.isArray(v) && v.every(_.isString)))
+                    .validate('body.max_tokens', v => _.isUndefined(v) || _.isNull(v) || (_.isInteger(v) && v > 0))
+                    .validate('body.max_completion_tokens', v => _.isUndefined(v) || _.isNull(v) || (_.isInteger(v) && v > 0))
+                    .validate('body.n', v => _.isUndefined(v) || _.isNull(v) || (_.isInteger(v) && v > 0))
+                    .validate('headers.authorization', _.isString)
+                // 解析API Key或切分token
+                const tokens = auth.resolveTokens(request.headers.authorization);
+                let { conversation_id: convId, messages, stream } = request.body;
+                // 校验模型并解析别名，未知模型按配置映射到默认模型
+                const definition = modelRegistry.resolve(request.body.model, 'chat');
+                const model = definition.id;
+                let token: string, retry: RetryState, options: CompletionOptions = {};
+                const sessionId = chatSession.extractId(request.headers, request.body);
+                const n = request.body.n || 1;
+                if (n > config.system.maxChoices)
+                    throw new APIException(EX.API_REQUEST_PARAMS_INVALID, `Params n must not be greater than ${config.system.maxChoices}`);
+                if (n > 1 && (convId || sessionId))
+                    throw new APIException(EX.API_REQUEST_PARAMS_INVALID, 'Params n greater than 1 is not supported when continuing a conversation');
+                // 会话模式下复用服务端会话，仅发送新增的消息
+                if (sessionId && !convId)
+                    ({ token, convId, messages, retry, options } = chatSession.prepare(sessionId, tokens, messages));
+                else {
+                    // 引用会话时使用会话所属token，否则从token池挑选一个健康的token
+                    token = conversationAffinity.select(tokens, convId);
+                    // 已知所属token的会话不能切换token重试
+                    retry = { tokens: convId && conversationAffinity.getOwner(convId) ? [] : tokens };
+                }
+                // 工具调用和结构化输出由提示词模拟实现
+                const { tools, tool_choice: toolChoice, response_format: responseFormat } = request.body;
+                // 显式指定web_search或模型默认开启（含带-search后缀的模型名称）时开启联网搜索
+                const webSearch = _.defaultTo(request.body.web_search, !!definition.options.searchMode);
+                if (webSearch && !modelRegistry.hasCapability(definition, 'search'))
+                    throw new APIException(EX.API_MODEL_NOT_SUPPORTED, `Model ${model} does not support search`).setHTTPStatusCode(400);
+                if (!modelRegistry.hasCapability(definition, 'vision') && messages.some(message => _.isArray(message.content) && message.content.some(v => _.isObject(v) && ['image_url', 'file'].includes(v['type']))))
+                    throw new APIException(EX.API_MODEL_NOT_SUPPORTED, `Model ${model} does not support vision`).setHTTPStatusCode(400);
+                const includeUsage = _.get(request.body, 'stream_options.include_usage') === true;
+                // 停止序列和最大生成token数在服务端截断输出
+                const limits = { stop: request.body.stop, maxTokens: request.body.max_completion_tokens || request.body.max_tokens };
+                // 历史消息压缩情况通过响应头返回
+                const compaction = { strategy: 'none', dropped: 0 };
+                const onCompact = ({ strategy, dropped }) => Object.assign(compaction, { strategy, dropped });
+                const headers = () => ({ 'X-Context-Compaction': `${compaction.strategy}; dropped=${compaction.dropped}` });
+                options = { ...options, tools, toolChoice, responseFormat, webSearch, includeUsage, limits, onCompact, signal: request.signal };
+                // 多个选项时每个选项从token池挑选一个token并行补全
+                if (n > 1) {
+                    const selectedTokens = [token, ..._.times(n - 1, () => tokenPool.select(tokens))];
+                    selectedTokens.forEach(token => tokenStats.recordRequest(token, request.path));
+                    if (stream) {
+                        const stream = await chat.createMultipleCompletionStream(model, messages, selectedTokens, retry, options);
+                        return new Response(stream, {
+                            type: "text/event-stream",
+                            headers: headers()
+                        });
+                    }
+                    const answer = await chat.createMultipleCompletion(model, messages, selectedTokens, retry, options);
+                    return new Response(answer, { headers: headers() });
+                }
+                tokenStats.recordRequest(token, request.path);
+                if (stream) {
+                    const stream = await chat.createCompletionStream(model, messages, token, convId, retry, options);
+                    return new Response(stream, {
+                        type: "text/event-stream",
+                        headers: headers()
+                    });
+                }
+                const answer = await chat.createCompletion(model, messages, token, convId, retry, options);
+                return new Response(answer, { headers: headers() });
+            }
+            catch (err) {
+                return openaiError.createErrorResponse(err);
             }
-            else
-                return await chat.createCompletion(model, messages, token, convId);
         }
 
     }
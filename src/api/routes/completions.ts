@@ -0,0 +1,68 @@
+import _ from 'lodash';
+
+import Request from '@/lib/request/Request.ts';
+import Response from '@/lib/response/Response.ts';
+import APIException from '@/lib/exceptions/APIException.ts';
+import EX from '@/api/consts/exceptions.ts';
+import auth from '@/api/controllers/auth.ts';
+import chat from '@/api/controllers/chat.ts';
+import completions from '@/api/controllers/completions.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import openaiError from '@/api/controllers/openai-error.ts';
+import tokenPool from '@/api/controllers/token-pool.ts';
+import tokenStats from '@/api/controllers/token-stats.ts';
+import config from '@/lib/config.ts';
+import util from '@/lib/util.ts';
+
+export default {
+
+    prefix: '/v1',
+
+    post: {
+
+        '/completions': async (request: Request) => {
+            try {
+                request
+                    .validate('body.model', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.prompt', v => _.isString(v) || (_.isArray(v) && v.length > 0 && v.every(_.isString)))
+                    .validate('body.suffix', v => _.isUndefined(v) || _.isNull(v) || _.isString(v))
+                    .validate('body.echo', v => _.isUndefined(v) || _.isBoolean(v))
+                    .validate('body.stop', v => _.isUndefined(v) || _.isNull(v) || _.isString(v) || (_.isArray(v) && v.every(_.isString)))
+                    .validate('body.max_tokens', v => _.isUndefined(v) || _.isNull(v) || (_.isInteger(v) && v > 0))
+                    .validate('headers.authorization', _.isString)
+                // 解析API Key或切分token
+                const tokens = auth.resolveTokens(request.headers.authorization);
+                const { prompt, suffix, echo, stop, max_tokens: maxTokens, stream } = request.body;
+                const { id: model } = modelRegistry.resolve(request.body.model, 'chat');
+                // 每个提示词作为一次单轮对话，从token池各挑选一个token并行补全
+                const prompts: string[] = _.castArray(prompt);
+                if (prompts.length > config.system.maxChoices)
+                    throw new APIException(EX.API_REQUEST_PARAMS_INVALID, `Params prompt must not contain more than ${config.system.maxChoices} prompts`);
+                const selectedTokens = prompts.map(() => tokenPool.select(tokens));
+                selectedTokens.forEach(token => tokenStats.recordRequest(token, request.path));
+                // 任一提示词补全失败时中止其余提示词的上游请求
+                const { controller, unbind } = util.createLinkedAbortController(request.signal);
+                const abort = (err: any) => {
+                    controller.abort();
+                    throw err;
+                };
+                const options = { limits: { stop, maxTokens }, signal: controller.signal };
+                if (stream) {
+                    const streams = await Promise.all(prompts.map((prompt, index) =>
+                        chat.createCompletionStream(model, completions.buildMessages(prompt, suffix), selectedTokens[index], '', { tokens }, options))).catch(abort);
+                    return new Response(completions.createTextStream(model, streams, prompts, echo), {
+                        type: "text/event-stream"
+                    });
+                }
+                const answers = await Promise.all(prompts.map((prompt, index) =>
+                    chat.createCompletion(model, completions.buildMessages(prompt, suffix), selectedTokens[index], '', { tokens }, options))).catch(abort).finally(unbind);
+                return completions.convertAnswers(model, answers, prompts, echo);
+            }
+            catch (err) {
+                return openaiError.createErrorResponse(err);
+            }
+        }
+
+    }
+
+}
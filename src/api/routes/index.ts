@@ -2,10 +2,14 @@ import fs from 'fs-extra';
 
 import Response from '@/lib/response/Response.ts';
 import chat from "./chat.ts";
+import completions from './completions.ts';
 import audio from './audio.ts';
 import ping from "./ping.ts";
 import token from './token.js';
 import models from './models.ts';
+import messages from './messages.ts';
+import responses from './responses.ts';
+import ollama from './ollama.ts';
 
 export default [
     {
@@ -22,8 +26,12 @@ export default [
         }
     },
     chat,
+    completions,
     audio,
     ping,
     token,
-    models
+    models,
+    messages,
+    responses,
+    ollama
 ];
\ No newline at end of file
@@ -0,0 +1,59 @@
+import _ from 'lodash';
+
+import Request from '@/lib/request/Request.ts';
+import Response from '@/lib/response/Response.ts';
+import APIException from '@/lib/exceptions/APIException.ts';
+import EX from '@/api/consts/exceptions.ts';
+import auth from '@/api/controllers/auth.ts';
+import anthropic from '@/api/controllers/anthropic.ts';
+import chat from '@/api/controllers/chat.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import tokenPool from '@/api/controllers/token-pool.ts';
+import tokenStats from '@/api/controllers/token-stats.ts';
+import logger from '@/lib/logger.ts';
+
+export default {
+
+    prefix: '/v1',
+
+    post: {
+
+        '/messages': async (request: Request) => {
+            try {
+                request
+                    .validate('body.model', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.system', v => _.isUndefined(v) || _.isString(v) || _.isArray(v))
+                    .validate('body.messages', _.isArray)
+                    .validate('body.max_tokens', v => _.isUndefined(v) || (_.isInteger(v) && v > 0))
+                    .validate('body.stop_sequences', v => _.isUndefined(v) || (_.isArray(v) && v.every(_.isString)))
+                // 兼容x-api-key和Authorization两种认证方式
+                const authorization = request.headers['x-api-key'] || request.headers.authorization;
+                if (!_.isString(authorization))
+                    throw new APIException(EX.API_REQUEST_PARAMS_INVALID, 'Params headers.x-api-key invalid').setHTTPStatusCode(401);
+                const tokens = auth.resolveTokens(authorization);
+                const token = tokenPool.select(tokens);
+                const { system, messages, max_tokens: maxTokens, stop_sequences: stop, stream } = request.body;
+                const { id: model } = modelRegistry.resolve(request.body.model, 'chat');
+                const options = { limits: { stop, maxTokens }, includeUsage: true, signal: request.signal };
+                tokenStats.recordRequest(token, request.path);
+                const _messages = anthropic.convertMessages(system, messages);
+                if (stream) {
+                    const stream = await chat.createCompletionStream(model, _messages, token, '', { tokens }, options);
+                    return new Response(anthropic.createMessageStream(model, stream), {
+                        type: "text/event-stream"
+                    });
+                }
+                const answer = await chat.createCompletion(model, _messages, token, '', { tokens }, options);
+                return anthropic.convertAnswer(answer, model);
+            }
+            catch (err) {
+                // 以Anthropic的错误格式返回
+                logger.error(err);
+                const { statusCode, body } = anthropic.convertError(err);
+                return new Response(body, { statusCode });
+            }
+        }
+
+    }
+
+}
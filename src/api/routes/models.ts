@@ -1,41 +1,35 @@
 import _ from 'lodash';
 
+import Request from '@/lib/request/Request.ts';
+import APIException from '@/lib/exceptions/APIException.ts';
+import EX from '@/api/consts/exceptions.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import openaiError from '@/api/controllers/openai-error.ts';
+
 export default {
 
     prefix: '/v1',
 
     get: {
+
         '/models': async () => {
             return {
-                "data": [
-                    {
-                        "id": "abab6-chat",
-                        "object": "model",
-                        "owned_by": "minimax-free-api"
-                    },
-                    {
-                        "id": "abab5.5s-chat",
-                        "object": "model",
-                        "owned_by": "minimax-free-api"
-                    },
-                    {
-                        "id": "abab5.5-chat",
-                        "object": "model",
-                        "owned_by": "minimax-free-api"
-                    },
-                    {
-                        "id": "abab-v1",
-                        "object": "model",
-                        "owned_by": "minimax-free-api"
-                    },
-                    {
-                        "id": "abab-v1-vision",
-                        "object": "model",
-                        "owned_by": "minimax-free-api"
-                    }
-                ]
+                "object": "list",
+                "data": modelRegistry.list().map(modelRegistry.toObject)
             };
+        },
+
+        '/models/:id': async (request: Request) => {
+            try {
+                const model = modelRegistry.find(request.params.id);
+                if (!model)
+                    throw new APIException(EX.API_MODEL_NOT_SUPPORTED, `Model ${request.params.id} does not exist`).setHTTPStatusCode(404);
+                return modelRegistry.toObject(model);
+            }
+            catch (err) {
+                return openaiError.createErrorResponse(err);
+            }
         }
 
     }
-}
\ No newline at end of file
+}
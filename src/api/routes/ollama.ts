@@ -0,0 +1,135 @@
+import _ from 'lodash';
+
+import Request from '@/lib/request/Request.ts';
+import Response from '@/lib/response/Response.ts';
+import auth from '@/api/controllers/auth.ts';
+import chat from '@/api/controllers/chat.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import ollama from '@/api/controllers/ollama.ts';
+import tokenPool from '@/api/controllers/token-pool.ts';
+import tokenStats from '@/api/controllers/token-stats.ts';
+import models from './models.ts';
+import logger from '@/lib/logger.ts';
+import util from '@/lib/util.ts';
+
+/**
+ * 获取模型列表
+ */
+async function getModels() {
+    const { data } = await models.get['/models']();
+    // Ollama仅用于对话，只列出具备对话能力的模型
+    return data.filter(model => model.capabilities.includes('chat'));
+}
+
+/**
+ * 调用对话补全并转换为Ollama响应
+ *
+ * @param request 请求对象
+ * @param messages gpt系列消息列表
+ * @param generate 是否为生成接口
+ */
+async function complete(request: Request, messages: any[], generate: boolean) {
+    const startTime = util.timestamp();
+    // 标准Ollama客户端不携带认证信息，此时使用default分组下托管的token
+    const { authorization } = request.headers;
+    const tokens = authorization ? auth.resolveTokens(authorization) : auth.resolveDefaultTokens();
+    const token = tokenPool.select(tokens);
+    tokenStats.recordRequest(token, request.path);
+    const { stream } = request.body;
+    const { id: model } = modelRegistry.resolve(ollama.normalizeModelName(request.body.model), 'chat');
+    const options = { ...ollama.convertOptions(request.body), signal: request.signal };
+    // Ollama默认以流式输出
+    if (stream !== false) {
+        const _stream = await chat.createCompletionStream(model, messages, token, '', { tokens }, options);
+        return new Response(ollama.createNDJSONStream(model, _stream, startTime, generate), {
+            type: 'application/x-ndjson'
+        });
+    }
+    const answer = await chat.createCompletion(model, messages, token, '', { tokens }, options);
+    return ollama.convertAnswer(model, answer, startTime, generate);
+}
+
+/**
+ * 以Ollama的错误格式返回
+ *
+ * @param err 错误对象
+ */
+function handleError(err: any) {
+    logger.error(err);
+    const { statusCode, body } = ollama.convertError(err);
+    return new Response(body, { statusCode });
+}
+
+export default {
+
+    prefix: '/api',
+
+    get: {
+
+        '/tags': async () => {
+            return ollama.convertModels(await getModels());
+        }
+
+    },
+
+    post: {
+
+        '/show': async (request: Request) => {
+            try {
+                const name = request.body.model || request.body.name;
+                request.validate('body.model', () => _.isString(name));
+                // 别名按对应的模型展示
+                const model = modelRegistry.find(ollama.normalizeModelName(name));
+                return ollama.showModel(await getModels(), model ? model.id : ollama.normalizeModelName(name));
+            }
+            catch (err) {
+                return handleError(err);
+            }
+        },
+
+        '/chat': async (request: Request) => {
+            try {
+                request
+                    .validate('body.model', _.isString)
+                    .validate('body.messages', _.isArray)
+                    .validate('body.stream', v => _.isUndefined(v) || _.isBoolean(v))
+                    .validate('body.options', v => _.isUndefined(v) || _.isObject(v))
+                    .validate('headers.authorization', v => _.isUndefined(v) || _.isString(v))
+                return await complete(request, ollama.convertMessages(request.body.messages), false);
+            }
+            catch (err) {
+                return handleError(err);
+            }
+        },
+
+        '/generate': async (request: Request) => {
+            try {
+                request
+                    .validate('body.model', _.isString)
+                    .validate('body.prompt', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.system', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.suffix', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.images', v => _.isUndefined(v) || _.isNull(v) || _.isArray(v))
+                    .validate('body.stream', v => _.isUndefined(v) || _.isBoolean(v))
+                    .validate('body.options', v => _.isUndefined(v) || _.isObject(v))
+                    .validate('headers.authorization', v => _.isUndefined(v) || _.isString(v))
+                const { model, prompt, system, images, suffix } = request.body;
+                // 空提示词用于预加载模型，直接返回完成
+                if (!prompt)
+                    return {
+                        model,
+                        created_at: new Date().toISOString(),
+                        response: '',
+                        done: true,
+                        done_reason: 'load'
+                    };
+                return await complete(request, ollama.convertPrompt(prompt, system, images, suffix), true);
+            }
+            catch (err) {
+                return handleError(err);
+            }
+        }
+
+    }
+
+}
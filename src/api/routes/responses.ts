@@ -0,0 +1,52 @@
+import _ from 'lodash';
+
+import Request from '@/lib/request/Request.ts';
+import Response from '@/lib/response/Response.ts';
+import auth from '@/api/controllers/auth.ts';
+import chat from '@/api/controllers/chat.ts';
+import responses from '@/api/controllers/responses.ts';
+import modelRegistry from '@/api/controllers/model-registry.ts';
+import openaiError from '@/api/controllers/openai-error.ts';
+import tokenPool from '@/api/controllers/token-pool.ts';
+import tokenStats from '@/api/controllers/token-stats.ts';
+
+export default {
+
+    prefix: '/v1',
+
+    post: {
+
+        '/responses': async (request: Request) => {
+            try {
+                request
+                    .validate('body.model', v => _.isUndefined(v) || _.isString(v))
+                    .validate('body.input', v => _.isString(v) || _.isArray(v))
+                    .validate('body.instructions', v => _.isUndefined(v) || _.isNull(v) || _.isString(v))
+                    .validate('body.previous_response_id', v => _.isUndefined(v) || _.isNull(v) || _.isString(v))
+                    .validate('body.max_output_tokens', v => _.isUndefined(v) || _.isNull(v) || (_.isInteger(v) && v > 0))
+                    .validate('headers.authorization', _.isString)
+                // 解析API Key或切分token
+                const tokens = auth.resolveTokens(request.headers.authorization);
+                const token = tokenPool.select(tokens);
+                // 合并上一个响应的对话历史，复用对话补全完成生成
+                const { id: model } = modelRegistry.resolve(request.body.model, 'chat');
+                const context = responses.createContext({ ...request.body, model }, tokens);
+                const options = { limits: { maxTokens: request.body.max_output_tokens }, includeUsage: true, signal: request.signal };
+                tokenStats.recordRequest(token, request.path);
+                if (request.body.stream) {
+                    const stream = await chat.createCompletionStream(context.model, context.messages, token, '', { tokens }, options);
+                    return new Response(responses.createResponseStream(stream, context), {
+                        type: "text/event-stream"
+                    });
+                }
+                const answer = await chat.createCompletion(context.model, context.messages, token, '', { tokens }, options);
+                return responses.convertAnswer(answer, context);
+            }
+            catch (err) {
+                return openaiError.createErrorResponse(err);
+            }
+        }
+
+    }
+
+}
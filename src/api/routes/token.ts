@@ -1,21 +1,69 @@
 import _ from 'lodash';
 
 import Request from '@/lib/request/Request.ts';
+import auth from '../controllers/auth.ts';
 import core from '../controllers/core.ts';
+import tokenLimiter from '../controllers/token-limiter.ts';
+import tokenHealth from '../controllers/token-health.ts';
+import tokenStats from '../controllers/token-stats.ts';
 
 export default {
 
     prefix: '/token',
 
+    get: {
+
+        '/queue': async (request: Request) => {
+            auth.checkAdmin(request.headers.authorization);
+            return {
+                data: tokenLimiter.getStats()
+            }
+        },
+
+        '/stats': async (request: Request) => {
+            auth.checkAdmin(request.headers.authorization);
+            return {
+                data: tokenStats.getReport()
+            }
+        },
+
+        '/sessions': async (request: Request) => {
+            auth.checkAdmin(request.headers.authorization);
+            return {
+                data: core.getSessionPool().getStats()
+            }
+        }
+
+    },
+
     post: {
 
         '/check': async (request: Request) => {
             request
-                .validate('body.token', _.isString)
-            const live = await core.getTokenLiveStatus(request.body.token);
+                .validate('body.token', v => _.isUndefined(v) || _.isString(v))
+                .validate('body.tokens', v => _.isUndefined(v) || (_.isArray(v) && v.length > 0 && v.every(_.isString)))
+                .validate('body.force', v => _.isUndefined(v) || _.isBoolean(v))
+            const { token, tokens, force } = request.body;
+            // 批量检测返回脱敏token及账号信息
+            if (tokens)
+                return {
+                    data: await tokenHealth.checkTokens(tokens, force)
+                }
+            request.validate('body.token', _.isString);
+            const live = await core.getTokenLiveStatus(token);
             return {
                 live
             }
+        },
+
+        '/stats/reset': async (request: Request) => {
+            auth.checkAdmin(request.headers.authorization);
+            request
+                .validate('body.tokens', v => _.isUndefined(v) || (_.isArray(v) && v.every(_.isString)))
+            tokenStats.reset(request.body.tokens);
+            return {
+                success: true
+            }
         }
 
     }
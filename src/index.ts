@@ -5,6 +5,7 @@ import config from "@/lib/config.ts";
 import "@/lib/initialize.ts";
 import server from "@/lib/server.ts";
 import routes from "@/api/routes/index.ts";
+import tokenHealth from "@/api/controllers/token-health.ts";
 import logger from "@/lib/logger.ts";
 
 const startupTime = performance.now();
@@ -21,6 +22,8 @@ const startupTime = performance.now();
   server.attachRoutes(routes);
   await server.listen();
 
+  tokenHealth.startScheduledCheck();
+
   config.service.bindAddress &&
     logger.success("Service bind address:", config.service.bindAddress);
 })()
@@ -24,14 +24,54 @@ export class ServiceConfig {
     urlPrefix;
     /** @type {string} 服务绑定地址（外部访问地址） */
     bindAddress;
+    /** 服务端托管的token分组（分组名称 -> token列表） */
+    tokens: Record<string, string[]>;
+    /** 托管token分组文件路径（YAML或JSON） */
+    tokensFile: string;
+    /** 签发的API Key（API Key -> token分组名称） */
+    apiKeys: Record<string, string>;
+    /** API Key前缀，未匹配的该前缀凭证将被拒绝 */
+    apiKeyPrefix: string;
+    /** 是否允许客户端直接提供hailuo token */
+    allowRawTokens: boolean;
+    /** 管理密钥，访问token统计等管理接口时需要提供，未配置时管理接口不可用 */
+    adminKey: string;
 
     constructor(options?: any) {
-        const { name, host, port, urlPrefix, bindAddress } = options || {};
+        const { name, host, port, urlPrefix, bindAddress, tokens, tokensFile, apiKeys, apiKeyPrefix, allowRawTokens, adminKey } = options || {};
         this.name = _.defaultTo(name, 'minimax-free-api');
         this.host = _.defaultTo(host, '0.0.0.0');
         this.port = _.defaultTo(port, 5566);
         this.urlPrefix = _.defaultTo(urlPrefix, '');
         this.bindAddress = bindAddress;
+        this.tokensFile = tokensFile;
+        this.tokens = ServiceConfig.parseTokenGroups(tokens);
+        if(tokensFile && fs.pathExistsSync(path.resolve(tokensFile)))
+            Object.assign(this.tokens, ServiceConfig.parseTokenGroups(yaml.parse(fs.readFileSync(path.resolve(tokensFile)).toString())));
+        this.apiKeys = _.defaultTo(apiKeys, {});
+        this.apiKeyPrefix = _.defaultTo(apiKeyPrefix, 'sk-');
+        this.allowRawTokens = _.defaultTo(allowRawTokens, true);
+        this.adminKey = _.defaultTo(adminKey, '');
+    }
+
+    /**
+     * 所有托管的token
+     */
+    get managedTokens() {
+        return _.uniq(_.flatten(Object.values(this.tokens)));
+    }
+
+    /**
+     * 解析token分组，列表或逗号分隔字符串视为default分组
+     * 
+     * @param value 分组配置
+     */
+    static parseTokenGroups(value: any): Record<string, string[]> {
+        if(!value) return {};
+        const split = (v: any) => (_.isArray(v) ? v : `${v}`.split(',')).map(token => `${token}`.trim()).filter(token => token);
+        if(_.isString(value) || _.isArray(value))
+            return { default: split(value) };
+        return _.mapValues(value, split);
     }
 
     get addressHost() {
@@ -57,7 +97,11 @@ export class ServiceConfig {
     }
 
     static load() {
-        const external = _.pickBy(environment, (v, k) => ["name", "host", "port"].includes(k) && !_.isUndefined(v));
+        const external: any = _.pickBy(environment, (v, k) => ["name", "host", "port"].includes(k) && !_.isUndefined(v));
+        if(environment.envVars.HAILUO_TOKENS)
+            external.tokens = environment.envVars.HAILUO_TOKENS;
+        if(environment.envVars.ADMIN_KEY)
+            external.adminKey = environment.envVars.ADMIN_KEY;
         if(!fs.pathExistsSync(CONFIG_PATH)) return new ServiceConfig(external);
         const data = yaml.parse(fs.readFileSync(CONFIG_PATH).toString());
         return new ServiceConfig({ ...data, ...external });
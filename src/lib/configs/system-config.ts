@@ -31,9 +31,67 @@ export class SystemConfig {
     requestBody: any;
     /** 是否调试模式 */
     debug: boolean;
+    /** 单个token最大并发请求数 */
+    tokenConcurrency: number;
+    /** 单个token最大排队请求数 */
+    tokenQueueSize: number;
+    /** 单个token排队超时时间（毫秒） */
+    tokenQueueTimeout: number;
+    /** token检测结果缓存时间（毫秒） */
+    tokenCheckCacheTime: number;
+    /** token批量检测并发数 */
+    tokenCheckConcurrency: number;
+    /** 托管token定时健康检查cron表达式，为空则不启用 */
+    tokenHealthCheckCron: string;
+    /** 托管token定时健康检查并发数 */
+    tokenHealthCheckConcurrency: number;
+    /** 托管token定时健康检查随机抖动上限（毫秒） */
+    tokenHealthCheckJitter: number;
+    /** 设备信息缓存文件路径，默认位于临时目录 */
+    deviceInfoCachePath: string;
+    /** token使用统计快照文件路径，默认位于临时目录 */
+    tokenStatsPath: string;
+    /** 是否开启服务端会话模式 */
+    sessionEnabled: boolean;
+    /** 服务端会话空闲回收时间（毫秒） */
+    sessionIdleTimeout: number;
+    /** 输出格式校验失败时要求模型重新输出的最大次数 */
+    responseFormatRetry: number;
+    /** 是否将联网搜索来源列表附加到输出内容末尾 */
+    searchSourcesAppend: boolean;
+    /** 上下文超出预算时的压缩策略：none、drop_oldest、middle_out或summarize */
+    contextStrategy: string;
+    /** 默认上下文token预算 */
+    contextTokenBudget: number;
+    /** 按模型名称指定的上下文token预算 */
+    contextTokenBudgets: Record<string, number>;
+    /** 上游HTTP/2单个会话最大并发流数 */
+    http2MaxStreams: number;
+    /** 上游HTTP/2会话保活ping间隔（毫秒），为0则不发送 */
+    http2PingInterval: number;
+    /** 上游HTTP/2空闲会话回收时间（毫秒） */
+    http2IdleTimeout: number;
+    /** 上游请求失败最大重试次数 */
+    retryCount: number;
+    /** 上游请求失败重试基础延迟（毫秒） */
+    retryDelay: number;
+    /** 重试延迟退避倍数，为1则固定延迟 */
+    retryBackoff: number;
+    /** 重试延迟上限（毫秒） */
+    retryMaxDelay: number;
+    /** 上游错误码到异常名称的映射，如API_CONTENT_FILTERED */
+    upstreamErrorCodes: Record<string, string>;
+    /** 接口错误格式：openai或legacy */
+    errorFormat: string;
+    /** 对话补全单次请求最大选项数（n） */
+    maxChoices: number;
+    /** 模型列表，为空则使用内置模型列表 */
+    models: any[];
+    /** 未知模型的处理方式：default或error */
+    unknownModel: string;
 
     constructor(options?: any) {
-        const { requestLog, tmpDir, logDir, logWriteInterval, logFileExpires, publicDir, tmpFileExpires, requestBody, debug } = options || {};
+        const { requestLog, tmpDir, logDir, logWriteInterval, logFileExpires, publicDir, tmpFileExpires, requestBody, debug, tokenConcurrency, tokenQueueSize, tokenQueueTimeout, tokenCheckCacheTime, tokenCheckConcurrency, tokenHealthCheckCron, tokenHealthCheckConcurrency, tokenHealthCheckJitter, deviceInfoCachePath, tokenStatsPath, sessionEnabled, sessionIdleTimeout, responseFormatRetry, searchSourcesAppend, contextStrategy, contextTokenBudget, contextTokenBudgets, http2MaxStreams, http2PingInterval, http2IdleTimeout, retryCount, retryDelay, retryBackoff, retryMaxDelay, upstreamErrorCodes, errorFormat, maxChoices, models, unknownModel } = options || {};
         this.requestLog = _.defaultTo(requestLog, false);
         this.tmpDir = _.defaultTo(tmpDir, './tmp');
         this.logDir = _.defaultTo(logDir, './logs');
@@ -55,6 +113,35 @@ export class SystemConfig {
             parsedMethods: ['POST', 'PUT', 'PATCH']
         });
         this.debug = _.defaultTo(debug, true);
+        this.tokenConcurrency = _.defaultTo(tokenConcurrency, 1);
+        this.tokenQueueSize = _.defaultTo(tokenQueueSize, 10);
+        this.tokenQueueTimeout = _.defaultTo(tokenQueueTimeout, 60000);
+        this.tokenCheckCacheTime = _.defaultTo(tokenCheckCacheTime, 600000);
+        this.tokenCheckConcurrency = _.defaultTo(tokenCheckConcurrency, 5);
+        this.tokenHealthCheckCron = _.defaultTo(tokenHealthCheckCron, '0 */10 * * * *');
+        this.tokenHealthCheckConcurrency = _.defaultTo(tokenHealthCheckConcurrency, 2);
+        this.tokenHealthCheckJitter = _.defaultTo(tokenHealthCheckJitter, 30000);
+        this.deviceInfoCachePath = _.defaultTo(deviceInfoCachePath, path.join(this.tmpDir, 'device-info.json'));
+        this.tokenStatsPath = _.defaultTo(tokenStatsPath, path.join(this.tmpDir, 'token-stats.json'));
+        this.sessionEnabled = _.defaultTo(sessionEnabled, false);
+        this.sessionIdleTimeout = _.defaultTo(sessionIdleTimeout, 1800000);
+        this.responseFormatRetry = _.defaultTo(responseFormatRetry, 2);
+        this.searchSourcesAppend = _.defaultTo(searchSourcesAppend, false);
+        this.contextStrategy = _.defaultTo(contextStrategy, 'none');
+        this.contextTokenBudget = _.defaultTo(contextTokenBudget, 32000);
+        this.contextTokenBudgets = _.defaultTo(contextTokenBudgets, {});
+        this.http2MaxStreams = _.defaultTo(http2MaxStreams, 100);
+        this.http2PingInterval = _.defaultTo(http2PingInterval, 30000);
+        this.http2IdleTimeout = _.defaultTo(http2IdleTimeout, 60000);
+        this.retryCount = _.defaultTo(retryCount, 3);
+        this.retryDelay = _.defaultTo(retryDelay, 5000);
+        this.retryBackoff = _.defaultTo(retryBackoff, 2);
+        this.retryMaxDelay = _.defaultTo(retryMaxDelay, 30000);
+        this.upstreamErrorCodes = _.defaultTo(upstreamErrorCodes, {});
+        this.errorFormat = _.defaultTo(errorFormat, 'openai');
+        this.maxChoices = _.defaultTo(maxChoices, 4);
+        this.models = _.defaultTo(models, []);
+        this.unknownModel = _.defaultTo(unknownModel, 'default');
     }
 
     get rootDirPath() {
@@ -65,6 +152,14 @@ export class SystemConfig {
         return path.resolve(this.tmpDir);
     }
 
+    get deviceInfoCacheFilePath() {
+        return path.resolve(this.deviceInfoCachePath);
+    }
+
+    get tokenStatsFilePath() {
+        return path.resolve(this.tokenStatsPath);
+    }
+
     get logDirPath() {
         return path.resolve(this.logDir);
     }
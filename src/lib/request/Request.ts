@@ -35,6 +35,8 @@ export default class Request {
     remoteIP: string | null;
     /** 请求接受时间戳（毫秒） */
     time: number;
+    /** 客户端断开信号，响应完成前连接关闭时触发 */
+    signal: AbortSignal;
 
     constructor(ctx, options: RequestOptions = {}) {
         const { time } = options;
@@ -50,6 +52,9 @@ export default class Request {
         this.files = ctx.request.files || {};
         this.remoteIP = this.headers["X-Real-IP"] || this.headers["x-real-ip"] || this.headers["X-Forwarded-For"] || this.headers["x-forwarded-for"] || ctx.ip || null;
         this.time = Number(_.defaultTo(time, util.timestamp()));
+        const controller = new AbortController();
+        ctx.res && ctx.res.once('close', () => !ctx.res.writableFinished && controller.abort());
+        this.signal = controller.signal;
     }
 
     validate(key: string, fn?: Function) {
@@ -14,6 +14,7 @@ import CRC32 from "crc-32";
 import randomstring from "randomstring";
 import _ from "lodash";
 import { CronJob } from "cron";
+import { createParser } from "eventsource-parser";
 
 import HTTP_STATUS_CODE from "./http-status-codes.ts";
 
@@ -313,6 +314,79 @@ const util = {
     return result.data.toString("base64");
   },
 
+  async writeFileAtomic(filePath: string, data: string | Buffer) {
+    const tmpFilePath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(tmpFilePath, data);
+    await fs.rename(tmpFilePath, filePath);
+  },
+
+  async mapLimit<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let cursor = 0;
+    const workerCount = Math.min(Math.max(limit, 1), items.length);
+    await Promise.all(
+      Array.from({ length: workerCount }, async () => {
+        while (cursor < items.length) {
+          const index = cursor++;
+          results[index] = await fn(items[index], index);
+        }
+      })
+    );
+    return results;
+  },
+
+  createLRUCache<T>(maxSize: number, ttl = 0) {
+    // 利用Map的插入顺序实现LRU淘汰，ttl为0时不过期
+    const map = new Map<string, { value: T; expireTime: number }>();
+    return {
+      get(key: string): T | undefined {
+        const entry = map.get(key);
+        if (!entry) return undefined;
+        map.delete(key);
+        if (entry.expireTime && entry.expireTime < Date.now()) return undefined;
+        // 重新插入以刷新LRU顺序
+        map.set(key, entry);
+        return entry.value;
+      },
+      set(key: string, value: T) {
+        map.delete(key);
+        map.set(key, { value, expireTime: ttl ? Date.now() + ttl : 0 });
+        while (map.size > maxSize) map.delete(map.keys().next().value);
+      },
+      delete(key: string) {
+        map.delete(key);
+      },
+    };
+  },
+
+  readChunks(stream: any, onChunk: (chunk: any) => void) {
+    // 逐个解析gpt兼容流中的JSON数据块，忽略结束标记和无法解析的数据
+    const parser = createParser((event) => {
+      if (event.type !== "event" || event.data == "[DONE]") return;
+      const chunk = _.attempt(() => JSON.parse(event.data));
+      if (_.isError(chunk)) return;
+      onChunk(chunk);
+    });
+    stream.on("data", (buffer) => parser.feed(buffer.toString()));
+  },
+
+  createLinkedAbortController(signal?: AbortSignal) {
+    const controller = new AbortController();
+    if (!signal) return { controller, unbind: () => {} };
+    const abort = () => controller.abort();
+    if (signal.aborted) abort();
+    else signal.addEventListener("abort", abort, { once: true });
+    return {
+      controller,
+      unbind: () => signal.removeEventListener("abort", abort),
+    };
+  },
+
   async transAudioCode(srcPath, destPath) {
     return new Promise((resolve, reject) => {
       const job = sox.transcode(srcPath, destPath, {